@@ -0,0 +1,44 @@
+import { describe, it, expect } from "bun:test";
+
+import { classifyCloseCode } from "./close-codes";
+
+describe("classifyCloseCode", () => {
+  it("should apply the RFC 6455 defaults", () => {
+    expect(classifyCloseCode(1000)).toEqual({ action: "retry" });
+    expect(classifyCloseCode(1001)).toEqual({ action: "retry" });
+    expect(classifyCloseCode(1008)).toEqual({ action: "do-not-retry" });
+    expect(classifyCloseCode(1011)).toEqual({ action: "retry" });
+    expect(classifyCloseCode(1012)).toEqual({
+      action: "retry-after-delay",
+      delay: 5000,
+    });
+    expect(classifyCloseCode(1013)).toEqual({
+      action: "retry-after-delay",
+      delay: 30_000,
+    });
+  });
+
+  it("should retry unknown codes", () => {
+    expect(classifyCloseCode(1006)).toEqual({ action: "retry" });
+    expect(classifyCloseCode(4321)).toEqual({ action: "retry" });
+  });
+
+  it("should match custom codes and ranges before the defaults", () => {
+    const rules = [
+      { code: 4001, action: "refresh-credentials" as const },
+      {
+        code: [4000, 4099] as [number, number],
+        action: "do-not-retry" as const,
+      },
+      { code: 1012, action: "retry" as const },
+    ];
+
+    expect(classifyCloseCode(4001, rules)).toEqual({
+      action: "refresh-credentials",
+    });
+    expect(classifyCloseCode(4050, rules)).toEqual({ action: "do-not-retry" });
+    expect(classifyCloseCode(4100, rules)).toEqual({ action: "retry" });
+    expect(classifyCloseCode(1012, rules)).toEqual({ action: "retry" });
+    expect(classifyCloseCode(1008, rules)).toEqual({ action: "do-not-retry" });
+  });
+});
@@ -0,0 +1,49 @@
+export type CloseAction =
+  | "retry"
+  | "retry-after-delay"
+  | "do-not-retry"
+  | "refresh-credentials";
+
+export interface CloseDecision {
+  action: CloseAction;
+  // Fixed delay in ms before reconnecting, used by "retry-after-delay"
+  delay?: number;
+}
+
+export interface CloseCodeRule extends CloseDecision {
+  // A single close code or an inclusive [from, to] range
+  code: number | [number, number];
+}
+
+// RFC 6455 codes, anything not listed is retried with the reconnect policy
+export const defaultCloseCodeRules: CloseCodeRule[] = [
+  { code: 1000, action: "retry" }, // Normal closure
+  { code: 1001, action: "retry" }, // Going away
+  { code: 1008, action: "do-not-retry" }, // Policy violation
+  { code: 1011, action: "retry" }, // Internal error
+  { code: 1012, action: "retry-after-delay", delay: 5000 }, // Service restart
+  { code: 1013, action: "retry-after-delay", delay: 30_000 }, // Try again later
+];
+
+const RETRY: CloseDecision = { action: "retry" };
+
+const matchesCode = ({ code: rule }: CloseCodeRule, code: number) =>
+  Array.isArray(rule) ? code >= rule[0] && code <= rule[1] : code === rule;
+
+// Custom rules take precedence over the defaults
+export function classifyCloseCode(
+  code: number,
+  rules: CloseCodeRule[] = [],
+): CloseDecision {
+  const rule =
+    rules.find((r) => matchesCode(r, code)) ??
+    defaultCloseCodeRules.find((r) => matchesCode(r, code));
+
+  if (!rule) {
+    return RETRY;
+  }
+
+  return rule.delay === undefined
+    ? { action: rule.action }
+    : { action: rule.action, delay: rule.delay };
+}
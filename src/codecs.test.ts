@@ -0,0 +1,101 @@
+import { describe, it, expect } from "bun:test";
+
+import { JsonCodec, MessagePackCodec } from "./codecs";
+
+describe("JsonCodec", () => {
+  const codec = new JsonCodec();
+
+  it("should encode messages as JSON text", () => {
+    expect(codec.encode({ a: [1, "b"] })).toBe('{"a":[1,"b"]}');
+  });
+
+  it("should decode text and UTF-8 binary frames", () => {
+    expect(codec.decode('{"a":1}')).toEqual({ a: 1 });
+    expect(codec.decode(new TextEncoder().encode('{"b":"é"}'))).toEqual({
+      b: "é",
+    });
+  });
+
+  it("should throw on malformed frames", () => {
+    expect(() => codec.decode("{")).toThrow(SyntaxError);
+  });
+});
+
+describe("MessagePackCodec", () => {
+  const codec = new MessagePackCodec();
+  const roundTrip = (value: unknown) => codec.decode(codec.encode(value));
+
+  it("should round-trip scalars", () => {
+    const values = [
+      null,
+      true,
+      false,
+      0,
+      127,
+      128,
+      65_536,
+      2 ** 40,
+      -1,
+      -33,
+      -40_000,
+      -(2 ** 40),
+      1.5,
+      "",
+      "héllo",
+      "x".repeat(300),
+    ];
+
+    for (const value of values) {
+      expect(roundTrip(value)).toEqual(value);
+    }
+  });
+
+  it("should round-trip nested arrays, maps and binary", () => {
+    const value = {
+      list: Array.from({ length: 20 }, (_, i) => i),
+      nested: { ok: true, name: "n" },
+      bytes: new Uint8Array([1, 2, 3]),
+    };
+
+    expect(roundTrip(value)).toEqual(value);
+  });
+
+  it("should use the compact fixed formats", () => {
+    expect(Array.from(codec.encode({ a: 1 }) as Uint8Array)).toEqual([
+      0x81, 0xa1, 0x61, 0x01,
+    ]);
+  });
+
+  it("should decode ArrayBuffer frames", () => {
+    const bytes = codec.encode([1, 2]) as Uint8Array;
+    expect(codec.decode(bytes.slice().buffer)).toEqual([1, 2]);
+  });
+
+  it("should keep a __proto__ key as an own property", () => {
+    const value = JSON.parse('{"__proto__":{"polluted":true}}');
+    const decoded = roundTrip(value) as Record<string, unknown>;
+
+    expect(Object.getPrototypeOf(decoded)).toBe(Object.prototype);
+    expect(Object.keys(decoded)).toEqual(["__proto__"]);
+    expect(decoded.polluted).toBeUndefined();
+  });
+
+  it("should reject objects that are not plain", () => {
+    expect(() => codec.encode(new Date())).toThrow(
+      "Cannot encode Date as MessagePack",
+    );
+    expect(() => codec.encode({ tags: new Set() })).toThrow(
+      "Cannot encode Set as MessagePack",
+    );
+    expect(roundTrip(Object.assign(Object.create(null), { a: 1 }))).toEqual({
+      a: 1,
+    });
+  });
+
+  it("should reject truncated or non-binary frames", () => {
+    expect(() => codec.decode(new Uint8Array([0x92, 0x01]))).toThrow(
+      RangeError,
+    );
+    expect(() => codec.decode("text")).toThrow(TypeError);
+  });
+});
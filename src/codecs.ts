@@ -0,0 +1,61 @@
+import { decodeMessagePack, encodeMessagePack } from "./msgpack.js";
+
+export type SendData = Parameters<WebSocket["send"]>[0];
+
+// Converts application messages to and from WebSocket frames
+export interface MessageCodec<In, Out> {
+  encode(message: Out): SendData;
+  decode(data: any): In;
+}
+
+// Passes frames through untouched, used when no codec is configured
+export const rawCodec: MessageCodec<any, SendData> = {
+  encode: (message) => message,
+  decode: (data) => data,
+};
+
+const textDecoder = new TextDecoder();
+
+const toBytes = (data: unknown): Uint8Array => {
+  if (data instanceof ArrayBuffer) return new Uint8Array(data);
+  if (ArrayBuffer.isView(data)) {
+    return new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+  }
+  if (typeof Blob !== "undefined" && data instanceof Blob) {
+    throw new TypeError(
+      'Blob frames cannot be decoded synchronously, set binaryType to "arraybuffer"',
+    );
+  }
+
+  throw new TypeError(`Expected a binary frame, received ${typeof data}`);
+};
+
+// Text frames holding JSON, binary frames are decoded as UTF-8 first
+export class JsonCodec<In = any, Out = unknown> implements MessageCodec<
+  In,
+  Out
+> {
+  encode(message: Out): SendData {
+    return JSON.stringify(message);
+  }
+
+  decode(data: unknown): In {
+    const text =
+      typeof data === "string" ? data : textDecoder.decode(toBytes(data));
+    return JSON.parse(text);
+  }
+}
+
+// Binary MessagePack frames, see msgpack.ts for the supported types
+export class MessagePackCodec<In = any, Out = unknown> implements MessageCodec<
+  In,
+  Out
+> {
+  encode(message: Out): SendData {
+    return encodeMessagePack(message);
+  }
+
+  decode(data: unknown): In {
+    return decodeMessagePack(toBytes(data)) as In;
+  }
+}
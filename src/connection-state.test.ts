@@ -0,0 +1,46 @@
+import { describe, it, expect } from "bun:test";
+
+import { ConnectionStateMachine } from "./connection-state";
+
+describe("ConnectionStateMachine", () => {
+  it("should start idle", () => {
+    expect(new ConnectionStateMachine().state).toBe("idle");
+  });
+
+  it("should return the change on a valid transition", () => {
+    const machine = new ConnectionStateMachine();
+
+    expect(machine.transition("connecting", "Connect")).toEqual({
+      previous: "idle",
+      state: "connecting",
+      reason: "Connect",
+    });
+    expect(machine.state).toBe("connecting");
+  });
+
+  it("should ignore transitions to the current state", () => {
+    const machine = new ConnectionStateMachine();
+    machine.transition("connecting", "Connect");
+
+    expect(machine.transition("connecting", "Connect")).toBeUndefined();
+  });
+
+  it("should throw on invalid transitions", () => {
+    const machine = new ConnectionStateMachine();
+
+    expect(machine.canTransition("open")).toBe(false);
+    expect(() => machine.transition("open", "Socket opened")).toThrow(
+      "Invalid state transition from idle to open",
+    );
+    expect(machine.state).toBe("idle");
+  });
+
+  it("should only leave closing for closed", () => {
+    const machine = new ConnectionStateMachine();
+    machine.transition("connecting", "Connect");
+    machine.transition("closing", "Closed by the client");
+
+    expect(machine.canTransition("connecting")).toBe(false);
+    expect(machine.canTransition("closed")).toBe(true);
+  });
+});
@@ -0,0 +1,74 @@
+export type ConnectionState =
+  | "idle"
+  | "connecting"
+  | "authenticating"
+  | "open"
+  | "reconnect-wait"
+  | "closing"
+  | "closed"
+  | "failed";
+
+export interface StateChangeEvent {
+  previous: ConnectionState;
+  state: ConnectionState;
+  reason: string;
+}
+
+// States reachable from each state. connect() may be called from any state
+// but "closing", close() from any state but "closed"
+const TRANSITIONS: Record<ConnectionState, readonly ConnectionState[]> = {
+  idle: ["connecting", "closed"],
+  connecting: [
+    "authenticating",
+    "open",
+    "reconnect-wait",
+    "failed",
+    "closing",
+    "closed",
+  ],
+  authenticating: [
+    "connecting",
+    "open",
+    "reconnect-wait",
+    "failed",
+    "closing",
+    "closed",
+  ],
+  open: ["connecting", "reconnect-wait", "failed", "closing", "closed"],
+  // A late open of the last socket cancels the pending reconnect
+  "reconnect-wait": [
+    "connecting",
+    "authenticating",
+    "open",
+    "failed",
+    "closed",
+  ],
+  closing: ["closed"],
+  closed: ["connecting"],
+  failed: ["connecting", "closed"],
+};
+
+export class ConnectionStateMachine {
+  state: ConnectionState = "idle";
+
+  canTransition(state: ConnectionState) {
+    return TRANSITIONS[this.state].includes(state);
+  }
+
+  // Returns undefined when already in that state, throws on invalid transitions
+  transition(state: ConnectionState, reason: string) {
+    if (state === this.state) {
+      return undefined;
+    }
+
+    if (!this.canTransition(state)) {
+      throw new Error(
+        `Invalid state transition from ${this.state} to ${state}`,
+      );
+    }
+
+    const change: StateChangeEvent = { previous: this.state, state, reason };
+    this.state = state;
+    return change;
+  }
+}
@@ -0,0 +1,71 @@
+import { describe, it, expect } from "bun:test";
+
+import { EndpointPool } from "./endpoints";
+
+describe("EndpointPool", () => {
+  it("should require at least one endpoint", () => {
+    expect(() => new EndpointPool([], "round-robin", 0)).toThrow(
+      "At least one endpoint URL is required",
+    );
+  });
+
+  it("should rotate through endpoints with round-robin", () => {
+    const pool = new EndpointPool(["a", "b", "c"], "round-robin", 0);
+    const visited = [pool.current.url];
+
+    for (let i = 0; i < 3; i++) {
+      pool.recordFailure();
+      visited.push(pool.current.url);
+    }
+
+    expect(visited).toEqual(["a", "b", "c", "a"]);
+    expect(pool.endpoints.map((e) => e.failures)).toEqual([1, 1, 1]);
+  });
+
+  it("should reset failures of the current endpoint on success", () => {
+    const pool = new EndpointPool(["a", "b"], "round-robin", 0);
+
+    pool.recordFailure();
+    pool.recordSuccess();
+
+    expect(pool.endpoints.map((e) => e.failures)).toEqual([1, 0]);
+  });
+
+  it("should return to the primary endpoint after returnToPrimaryAfter", () => {
+    const pool = new EndpointPool(
+      ["primary", "fallback-1", "fallback-2"],
+      "primary",
+      1000,
+    );
+
+    pool.recordFailure(0);
+    expect(pool.current.url).toBe("fallback-1");
+    expect(pool.onFallback).toBe(true);
+    expect(pool.timeUntilPrimary(400)).toBe(600);
+
+    pool.recordFailure(500);
+    expect(pool.current.url).toBe("fallback-2");
+    expect(pool.timeUntilPrimary(500)).toBe(500);
+
+    pool.recordFailure(1200);
+    expect(pool.current.url).toBe("primary");
+    expect(pool.onFallback).toBe(false);
+    expect(pool.timeUntilPrimary(1200)).toBe(Infinity);
+  });
+
+  it("should pick the endpoint that failed least recently", () => {
+    const pool = new EndpointPool(["a", "b", "c"], "least-recent-failure", 0);
+
+    pool.recordFailure(100);
+    expect(pool.current.url).toBe("b");
+
+    pool.recordFailure(200);
+    expect(pool.current.url).toBe("c");
+
+    pool.recordFailure(300);
+    expect(pool.current.url).toBe("a");
+
+    pool.recordFailure(400);
+    expect(pool.current.url).toBe("b");
+  });
+});
@@ -0,0 +1,99 @@
+export type EndpointStrategy =
+  | "round-robin"
+  | "primary"
+  | "least-recent-failure";
+
+export interface EndpointState<T> {
+  url: T;
+  // Consecutive failures, reset when a connection to this endpoint opens
+  failures: number;
+  lastFailureAt?: number;
+}
+
+export class EndpointPool<T> {
+  endpoints: EndpointState<T>[];
+  strategy: EndpointStrategy;
+  returnToPrimaryAfter: number;
+
+  index = 0;
+  // When the "primary" strategy moved away from the first endpoint
+  fallbackSince?: number;
+
+  constructor(
+    urls: T[],
+    strategy: EndpointStrategy,
+    returnToPrimaryAfter: number,
+  ) {
+    if (urls.length === 0) {
+      throw new Error("At least one endpoint URL is required");
+    }
+
+    this.endpoints = urls.map((url) => ({ url, failures: 0 }));
+    this.strategy = strategy;
+    this.returnToPrimaryAfter = returnToPrimaryAfter;
+  }
+
+  get current() {
+    return this.endpoints[this.index];
+  }
+
+  get onFallback() {
+    return this.strategy === "primary" && this.index !== 0;
+  }
+
+  recordSuccess() {
+    this.current.failures = 0;
+  }
+
+  // Marks the current endpoint as failed and moves to the next one
+  recordFailure(now = Date.now()) {
+    this.current.failures += 1;
+    this.current.lastFailureAt = now;
+    this.moveTo(this.nextIndex(now), now);
+  }
+
+  // Milliseconds left before the "primary" strategy returns to the first endpoint
+  timeUntilPrimary(now = Date.now()) {
+    if (!this.onFallback || this.fallbackSince === undefined) {
+      return Infinity;
+    }
+
+    return Math.max(this.returnToPrimaryAfter - (now - this.fallbackSince), 0);
+  }
+
+  returnToPrimary(now = Date.now()) {
+    this.moveTo(0, now);
+  }
+
+  private nextIndex(now: number) {
+    const { length } = this.endpoints;
+
+    switch (this.strategy) {
+      case "primary":
+        return this.timeUntilPrimary(now) === 0 ? 0 : (this.index + 1) % length;
+      case "least-recent-failure": {
+        let best = 0;
+
+        for (let i = 1; i < length; i++) {
+          const candidate = this.endpoints[i].lastFailureAt ?? -Infinity;
+          const current = this.endpoints[best].lastFailureAt ?? -Infinity;
+          if (candidate < current) best = i;
+        }
+
+        return best;
+      }
+      default:
+        return (this.index + 1) % length;
+    }
+  }
+
+  private moveTo(index: number, now: number) {
+    if (index === 0) {
+      this.fallbackSince = undefined;
+    } else if (this.index === 0) {
+      this.fallbackSince = now;
+    }
+
+    this.index = index;
+  }
+}
@@ -0,0 +1,40 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { describe, it, expect, afterEach } from "bun:test";
+
+import { FileQueueStorage } from "./file-queue-storage";
+
+describe("FileQueueStorage", () => {
+  let directory: string | undefined;
+
+  afterEach(async () => {
+    if (directory) await rm(directory, { recursive: true, force: true });
+    directory = undefined;
+  });
+
+  it("should load nothing before the first save", async () => {
+    directory = await mkdtemp(join(tmpdir(), "rws-"));
+    const storage = new FileQueueStorage(join(directory, "queue.json"));
+
+    expect(await storage.load()).toEqual([]);
+  });
+
+  it("should keep the latest snapshot", async () => {
+    directory = await mkdtemp(join(tmpdir(), "rws-"));
+    const path = join(directory, "queue.json");
+    const storage = new FileQueueStorage(path);
+
+    storage.save([{ type: "text", data: "a" }]);
+    await storage.save([
+      { type: "text", data: "a" },
+      { type: "text", data: "b" },
+    ]);
+
+    expect(await new FileQueueStorage(path).load()).toEqual([
+      { type: "text", data: "a" },
+      { type: "text", data: "b" },
+    ]);
+  });
+});
@@ -0,0 +1,41 @@
+import { readFile, rename, writeFile } from "node:fs/promises";
+
+import type { QueueStorage, StoredMessage } from "./queue-storage.js";
+
+// JSON file for Node.js and Bun, written to a temporary file then renamed.
+// Exported from its own entry point so browser bundles never see node:fs
+export class FileQueueStorage implements QueueStorage {
+  path: string;
+
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  async load(): Promise<StoredMessage[]> {
+    try {
+      return JSON.parse(await readFile(this.path, "utf8"));
+    } catch (error) {
+      // Nothing was queued yet
+      if ((error as { code?: string }).code === "ENOENT") {
+        return [];
+      }
+
+      throw error;
+    }
+  }
+
+  save(messages: StoredMessage[]) {
+    const write = async () => {
+      const temporaryPath = `${this.path}.tmp`;
+
+      await writeFile(temporaryPath, JSON.stringify(messages));
+      await rename(temporaryPath, this.path);
+    };
+
+    // Writes are chained so an older snapshot never overwrites a newer one
+    this.writing = this.writing.catch(() => {}).then(write);
+    return this.writing;
+  }
+}
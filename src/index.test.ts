@@ -1,6 +1,23 @@
 import { describe, it, expect, beforeEach, afterEach } from "bun:test";
 
-import { ReconnectingWebSocket } from ".";
+import {
+  ReconnectingWebSocket,
+  type AuthContext,
+  type CloseEventPayload,
+  type ConnectionStatsSnapshot,
+  type DecodeErrorEvent,
+  type DropEvent,
+  type EndpointChangeEvent,
+  type FailedEvent,
+  type GapEvent,
+  JsonCodec,
+  type MessageCodec,
+  MemoryQueueStorage,
+  MessagePackCodec,
+  type ReconnectContext,
+  type StateChangeEvent,
+  type StoredMessage,
+} from ".";
 
 describe("ReconnectingWebSocket", () => {
   let created: any[];
@@ -91,6 +108,19 @@ describe("ReconnectingWebSocket", () => {
     };
   });
 
+  // Only fire the pending reconnect, leaving connection timeouts untouched
+  const fireReconnect = (ws: ReconnectingWebSocket<any, any>) => {
+    const id = ws.reconnectTimeout as any;
+    const fn = timeouts.get(id);
+    timeouts.delete(id);
+    fn?.();
+  };
+
+  const open = (ws: FakeWebSocket) => {
+    ws.readyState = FakeWebSocket.OPEN;
+    ws.dispatchEvent(new Event("open"));
+  };
+
   afterEach(() => {
     globalThis.setTimeout = originalSetTimeout;
     globalThis.clearTimeout = originalClearTimeout;
@@ -180,6 +210,29 @@ describe("ReconnectingWebSocket", () => {
     expect(created.length).toBe(1);
   });
 
+  it("should emit close with the given code and reason on forced close", () => {
+    const ws = new ReconnectingWebSocket("ws://test", {
+      WebSocketConstructor: FakeWebSocket as any,
+    });
+    open(created[0]);
+
+    const closes: CloseEventPayload[] = [];
+    const states: string[] = [];
+    ws.onclose = (event) => closes.push(event);
+    ws.addEventListener("close", () => states.push(ws.state));
+
+    ws.close(4100, "Bye");
+
+    expect(closes).toEqual([
+      { code: 4100, reason: "Bye", decision: { action: "do-not-retry" } },
+    ]);
+    expect(states).toEqual(["closed"]);
+
+    ws.close();
+
+    expect(closes.length).toBe(1);
+  });
+
   it("should dispatch message", () => {
     const wsObj = new ReconnectingWebSocket("ws://test", {
       WebSocketConstructor: FakeWebSocket as any,
@@ -219,7 +272,7 @@ describe("ReconnectingWebSocket", () => {
       connectionTimeout: 0,
     });
     const closes: any[] = [];
-    wsObj.addEventListener("close", (ev: CloseEvent) => closes.push(ev));
+    wsObj.addEventListener("close", (ev) => closes.push(ev));
     // trigger abort and onClose dispatch
     flushTimers(); // abort and schedule reconnect + dispatch close
     flushTimers(); // dispatch the close event
@@ -1303,4 +1356,2744 @@ describe("ReconnectingWebSocket", () => {
       expect(created.length).toBe(2);
     });
   });
+
+  describe("reconnect policy", () => {
+    it("should pass attempt, close code and downtime to the reconnect policy", () => {
+      const contexts: ReconnectContext[] = [];
+
+      new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        reconnectPolicy: {
+          nextDelay: (context) => {
+            contexts.push(context);
+            return 100;
+          },
+        },
+      });
+
+      const firstInstance = created[0];
+      firstInstance.readyState = FakeWebSocket.OPEN;
+      firstInstance.dispatchEvent(new Event("open"));
+      firstInstance.dispatchEvent(new CloseEvent("close", { code: 1006 }));
+      flushTimers();
+
+      created[1].dispatchEvent(new CloseEvent("close", { code: 1011 }));
+
+      expect(contexts.length).toBe(2);
+      expect(contexts[0]).toMatchObject({ attempt: 0, closeCode: 1006 });
+      expect(contexts[0].previousDelay).toBeUndefined();
+      expect(contexts[1]).toMatchObject({
+        attempt: 1,
+        closeCode: 1011,
+        previousDelay: 100,
+      });
+      expect(contexts[1].downtime).toBeGreaterThanOrEqual(0);
+    });
+
+    it("should stop reconnecting when the policy gives up", () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        reconnectPolicy: { nextDelay: () => null },
+      });
+
+      const instance = created[0];
+      instance.readyState = FakeWebSocket.OPEN;
+      instance.dispatchEvent(new Event("open"));
+      instance.dispatchEvent(new CloseEvent("close"));
+      flushTimers();
+
+      expect(created.length).toBe(1);
+      expect(ws.reconnectTimeout).toBeUndefined();
+    });
+
+    it("should reset the attempt count after a successful open", () => {
+      const attempts: number[] = [];
+
+      new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        reconnectPolicy: {
+          nextDelay: ({ attempt }) => {
+            attempts.push(attempt);
+            return 100;
+          },
+        },
+      });
+
+      created[0].dispatchEvent(new CloseEvent("close"));
+      flushTimers();
+      created[1].dispatchEvent(new CloseEvent("close"));
+      flushTimers();
+
+      const instance = created[2];
+      instance.readyState = FakeWebSocket.OPEN;
+      instance.dispatchEvent(new Event("open"));
+      instance.dispatchEvent(new CloseEvent("close"));
+
+      expect(attempts.slice(0, 2)).toEqual([0, 1]);
+      expect(attempts.at(-1)).toBe(0);
+    });
+  });
+
+  describe("giving up", () => {
+    it("should emit failed after maxRetries attempts", () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        maxRetries: 2,
+      });
+
+      const failures: FailedEvent[] = [];
+      ws.addEventListener("failed", (event) => failures.push(event));
+
+      created[0].dispatchEvent(new Event("error"));
+      created[0].dispatchEvent(new CloseEvent("close", { code: 1006 }));
+      fireReconnect(ws);
+      created[1].dispatchEvent(new CloseEvent("close", { code: 1006 }));
+      fireReconnect(ws);
+      created[2].dispatchEvent(
+        new CloseEvent("close", { code: 1011, reason: "gone" }),
+      );
+      fireReconnect(ws);
+
+      expect(created.length).toBe(3);
+      expect(ws.failed).toBe(true);
+      expect(failures.length).toBe(1);
+      expect(failures[0].attempts).toBe(2);
+      expect(failures[0].lastClose).toEqual({ code: 1011, reason: "gone" });
+      expect(failures[0].lastError).toBeInstanceOf(Event);
+    });
+
+    it("should emit failed once maxDowntime is exceeded", () => {
+      const originalNow = Date.now;
+      let now = 0;
+      Date.now = () => now;
+
+      try {
+        const ws = new ReconnectingWebSocket("ws://test", {
+          WebSocketConstructor: FakeWebSocket as any,
+          maxDowntime: 1000,
+        });
+
+        const failures: FailedEvent[] = [];
+        ws.addEventListener("failed", (event) => failures.push(event));
+
+        created[0].dispatchEvent(new CloseEvent("close"));
+        expect(ws.failed).toBe(false);
+
+        now = 1500;
+        ws.connect();
+        created[1].dispatchEvent(new CloseEvent("close"));
+
+        expect(ws.failed).toBe(true);
+        expect(failures.length).toBe(1);
+        expect(ws.reconnectTimeout).toBeUndefined();
+      } finally {
+        Date.now = originalNow;
+      }
+    });
+
+    it("should give up at the maxDowntime deadline while waiting to reconnect", () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        maxDowntime: 10,
+        retryDelay: 10_000,
+      });
+
+      const failures: FailedEvent[] = [];
+      ws.addEventListener("failed", (event) => failures.push(event));
+
+      created[0].dispatchEvent(new CloseEvent("close", { code: 1006 }));
+      expect(ws.state).toBe("reconnect-wait");
+
+      timeouts.get(ws.downtimeTimeout as any)!();
+
+      expect(ws.state).toBe("failed");
+      expect(failures.length).toBe(1);
+      expect(ws.reconnectTimeout).toBeUndefined();
+    });
+
+    it("should give up at the maxDowntime deadline during a connection attempt", () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        maxDowntime: 10,
+      });
+
+      created[0].dispatchEvent(new CloseEvent("close", { code: 1006 }));
+      fireReconnect(ws);
+      expect(ws.state).toBe("connecting");
+
+      timeouts.get(ws.downtimeTimeout as any)!();
+
+      expect(ws.state).toBe("failed");
+      expect(created[1].readyState).toBe(FakeWebSocket.CLOSED);
+      expect(ws.connectTimeout).toBeUndefined();
+    });
+
+    it("should stop the maxDowntime deadline once reconnected", () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        maxDowntime: 10,
+      });
+
+      created[0].dispatchEvent(new CloseEvent("close", { code: 1006 }));
+      expect(ws.downtimeTimeout).toBeDefined();
+
+      fireReconnect(ws);
+      open(created[1]);
+
+      expect(ws.downtimeTimeout).toBeUndefined();
+    });
+
+    it("should restart a fresh retry cycle when connect() is called after failing", () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        maxRetries: 1,
+      });
+
+      created[0].dispatchEvent(new CloseEvent("close"));
+      fireReconnect(ws);
+      created[1].dispatchEvent(new CloseEvent("close"));
+      expect(ws.failed).toBe(true);
+
+      ws.connect();
+      expect(ws.failed).toBe(false);
+      expect(ws.retryCount).toBe(0);
+
+      created[2].dispatchEvent(new CloseEvent("close"));
+      fireReconnect(ws);
+
+      expect(created.length).toBe(4);
+    });
+  });
+
+  describe("close code rules", () => {
+    it("should expose the close decision on the close event", () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+      });
+
+      const closes: CloseEventPayload[] = [];
+      ws.addEventListener("close", (event) => closes.push(event));
+
+      created[0].dispatchEvent(
+        new CloseEvent("close", { code: 1012, reason: "restart" }),
+      );
+
+      expect(closes).toEqual([
+        {
+          code: 1012,
+          reason: "restart",
+          decision: { action: "retry-after-delay", delay: 5000 },
+        },
+      ]);
+    });
+
+    it("should not reconnect and emit failed on a do-not-retry code", () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        closeCodeRules: [{ code: [4000, 4099], action: "do-not-retry" }],
+      });
+
+      const failures: FailedEvent[] = [];
+      ws.addEventListener("failed", (event) => failures.push(event));
+
+      const instance = created[0];
+      instance.readyState = FakeWebSocket.OPEN;
+      instance.dispatchEvent(new Event("open"));
+      instance.dispatchEvent(
+        new CloseEvent("close", { code: 4001, reason: "auth failed" }),
+      );
+      flushTimers();
+
+      expect(created.length).toBe(1);
+      expect(failures.length).toBe(1);
+      expect(failures[0].lastClose).toEqual({
+        code: 4001,
+        reason: "auth failed",
+      });
+    });
+
+    it("should use the rule delay instead of the reconnect policy", () => {
+      const policyCalls: ReconnectContext[] = [];
+
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        reconnectPolicy: {
+          nextDelay: (context) => {
+            policyCalls.push(context);
+            return 100;
+          },
+        },
+      });
+
+      created[0].dispatchEvent(new CloseEvent("close", { code: 1013 }));
+
+      expect(policyCalls.length).toBe(0);
+      expect(ws.lastRetryDelay).toBe(30_000);
+      expect(ws.retryCount).toBe(1);
+    });
+  });
+
+  describe("heartbeat", () => {
+    it("should not send pings when heartbeatInterval is 0 (default)", () => {
+      new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+      });
+
+      const instance = created[0];
+      instance.readyState = FakeWebSocket.OPEN;
+      instance.dispatchEvent(new Event("open"));
+      flushTimers();
+      flushTimers();
+
+      expect(instance.sentData).toEqual([]);
+    });
+
+    it("should send the heartbeat message on every interval", () => {
+      let pings = 0;
+
+      new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        heartbeatInterval: 100,
+        heartbeatMessage: () => `ping-${++pings}`,
+        maxMissedPongs: 5,
+      });
+
+      const instance = created[0];
+      instance.readyState = FakeWebSocket.OPEN;
+      instance.dispatchEvent(new Event("open"));
+      flushTimers();
+      flushTimers();
+
+      expect(instance.sentData).toEqual(["ping-1", "ping-2"]);
+    });
+
+    it("should tear down and reconnect when pongs are missed", () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        heartbeatInterval: 100,
+        maxMissedPongs: 2,
+      });
+
+      const closes: CloseEventPayload[] = [];
+      ws.addEventListener("close", (event) => closes.push(event));
+
+      const instance = created[0];
+      instance.readyState = FakeWebSocket.OPEN;
+      instance.dispatchEvent(new Event("open"));
+      flushTimers();
+      flushTimers();
+
+      expect(instance.sentData).toEqual(["ping", "ping"]);
+      expect(closes.length).toBe(0);
+
+      // Third interval: two pongs missed
+      flushTimers();
+
+      expect(closes).toEqual([
+        {
+          code: 4003,
+          reason: "Heartbeat timeout",
+          decision: { action: "retry" },
+        },
+      ]);
+
+      flushTimers();
+      expect(created.length).toBe(2);
+    });
+
+    it("should keep the connection while pongs are received", () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        heartbeatInterval: 100,
+        maxMissedPongs: 1,
+      });
+
+      const messages: any[] = [];
+      ws.addEventListener("message", (event: MessageEvent) =>
+        messages.push(event.data),
+      );
+
+      const instance = created[0];
+      instance.readyState = FakeWebSocket.OPEN;
+      instance.dispatchEvent(new Event("open"));
+
+      for (let i = 0; i < 3; i++) {
+        flushTimers();
+        instance.dispatchEvent(new MessageEvent("message", { data: "pong" }));
+      }
+
+      expect(created.length).toBe(1);
+      expect(ws.missedPongs).toBe(0);
+      expect(messages).toEqual(["pong", "pong", "pong"]);
+    });
+
+    it("should swallow pongs when swallowPongs is enabled", () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        heartbeatInterval: 100,
+        heartbeatMessage: JSON.stringify({ op: "ping" }),
+        isPong: (event) => JSON.parse(event.data).op === "pong",
+        swallowPongs: true,
+      });
+
+      const messages: any[] = [];
+      ws.addEventListener("message", (event: MessageEvent) =>
+        messages.push(event.data),
+      );
+
+      const instance = created[0];
+      instance.readyState = FakeWebSocket.OPEN;
+      instance.dispatchEvent(new Event("open"));
+      flushTimers();
+
+      instance.dispatchEvent(
+        new MessageEvent("message", { data: '{"op":"pong"}' }),
+      );
+      instance.dispatchEvent(
+        new MessageEvent("message", { data: '{"op":"trade"}' }),
+      );
+
+      expect(instance.sentData).toEqual(['{"op":"ping"}']);
+      expect(messages).toEqual(['{"op":"trade"}']);
+      expect(ws.missedPongs).toBe(0);
+    });
+
+    it("should stop the heartbeat on forced close", () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        heartbeatInterval: 100,
+      });
+
+      const instance = created[0];
+      instance.readyState = FakeWebSocket.OPEN;
+      instance.dispatchEvent(new Event("open"));
+      ws.close();
+
+      expect(ws.heartbeatInterval).toBeUndefined();
+    });
+  });
+
+  describe("stats", () => {
+    it("should count messages and bytes in both directions", () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+      });
+
+      ws.send("queued");
+
+      const instance = created[0];
+      instance.readyState = FakeWebSocket.OPEN;
+      instance.dispatchEvent(new Event("open"));
+      ws.send("live");
+      instance.dispatchEvent(new MessageEvent("message", { data: "hello" }));
+
+      expect(ws.stats).toMatchObject({
+        messagesSent: 2,
+        bytesSent: 10,
+        messagesReceived: 1,
+        bytesReceived: 5,
+        reconnects: 0,
+      });
+    });
+
+    it("should measure round-trip time from heartbeat pongs", () => {
+      const originalNow = Date.now;
+      let now = 1000;
+      Date.now = () => now;
+
+      try {
+        const ws = new ReconnectingWebSocket("ws://test", {
+          WebSocketConstructor: FakeWebSocket as any,
+          heartbeatInterval: 100,
+        });
+
+        const instance = created[0];
+        instance.readyState = FakeWebSocket.OPEN;
+        instance.dispatchEvent(new Event("open"));
+        flushTimers();
+
+        now = 1042;
+        instance.dispatchEvent(new MessageEvent("message", { data: "pong" }));
+
+        expect(ws.stats.rtt).toEqual({ last: 42, avg: 42, p95: 42 });
+        expect(ws.stats.uptime).toBe(42);
+      } finally {
+        Date.now = originalNow;
+      }
+    });
+
+    it("should count reconnects and downtime", () => {
+      const originalNow = Date.now;
+      let now = 0;
+      Date.now = () => now;
+
+      try {
+        const ws = new ReconnectingWebSocket("ws://test", {
+          WebSocketConstructor: FakeWebSocket as any,
+        });
+
+        const firstInstance = created[0];
+        firstInstance.readyState = FakeWebSocket.OPEN;
+        firstInstance.dispatchEvent(new Event("open"));
+
+        now = 100;
+        firstInstance.dispatchEvent(new CloseEvent("close"));
+        flushTimers();
+
+        now = 350;
+        const secondInstance = created[1];
+        secondInstance.readyState = FakeWebSocket.OPEN;
+        secondInstance.dispatchEvent(new Event("open"));
+
+        expect(ws.stats).toMatchObject({
+          reconnects: 1,
+          totalDowntime: 250,
+          lastOpenAt: 350,
+          lastCloseAt: 100,
+        });
+      } finally {
+        Date.now = originalNow;
+      }
+    });
+
+    it("should emit stats periodically until closed", () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        statsInterval: 1000,
+      });
+
+      const snapshots: ConnectionStatsSnapshot[] = [];
+      ws.addEventListener("stats", (stats) => snapshots.push(stats));
+
+      flushTimers();
+      expect(snapshots.length).toBe(1);
+      expect(snapshots[0].messagesSent).toBe(0);
+
+      ws.close();
+      flushTimers();
+      expect(snapshots.length).toBe(1);
+    });
+
+    it("should stop emitting stats once failed", () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        statsInterval: 1000,
+        maxRetries: 0,
+      });
+
+      expect(ws.statsInterval).toBeDefined();
+
+      created[0].dispatchEvent(new CloseEvent("close", { code: 1006 }));
+
+      expect(ws.failed).toBe(true);
+      expect(ws.statsInterval).toBeUndefined();
+    });
+  });
+
+  describe("url provider", () => {
+    it("should resolve a synchronous url provider before each connection", () => {
+      let listenKey = 0;
+      const urls: string[] = [];
+
+      class RecordingWebSocket extends FakeWebSocket {
+        constructor(url: string, protocols?: string | string[]) {
+          super(url, protocols);
+          urls.push(url);
+        }
+      }
+
+      new ReconnectingWebSocket(() => `ws://test/${++listenKey}`, {
+        WebSocketConstructor: RecordingWebSocket as any,
+      });
+
+      expect(created.length).toBe(1);
+
+      created[0].dispatchEvent(new CloseEvent("close"));
+      flushTimers();
+
+      expect(urls).toEqual(["ws://test/1", "ws://test/2"]);
+    });
+
+    it("should await an async url provider before creating the socket", async () => {
+      new ReconnectingWebSocket(async () => "ws://signed", {
+        WebSocketConstructor: FakeWebSocket as any,
+      });
+
+      expect(created.length).toBe(0);
+
+      await Promise.resolve();
+
+      expect(created.length).toBe(1);
+    });
+
+    it("should emit error and reconnect when the url provider fails", async () => {
+      let calls = 0;
+
+      const ws = new ReconnectingWebSocket(
+        async () => {
+          calls++;
+          if (calls === 1) throw new Error("listenKey expired");
+          return "ws://test";
+        },
+        { WebSocketConstructor: FakeWebSocket as any },
+      );
+
+      const errors: unknown[] = [];
+      ws.addEventListener("error", (event) => errors.push(event.error));
+
+      await Promise.resolve();
+
+      expect(errors).toEqual([new Error("listenKey expired")]);
+      expect(ws.retryCount).toBe(1);
+      expect(created.length).toBe(0);
+
+      flushTimers();
+      await Promise.resolve();
+
+      expect(calls).toBe(2);
+      expect(created.length).toBe(1);
+    });
+
+    it("should time out a url provider that never settles", async () => {
+      let resolveUrl: (url: string) => void = () => {};
+
+      const ws = new ReconnectingWebSocket(
+        () => new Promise<string>((resolve) => (resolveUrl = resolve)),
+        { WebSocketConstructor: FakeWebSocket as any, connectionTimeout: 50 },
+      );
+
+      const errors: unknown[] = [];
+      ws.addEventListener("error", (event) => errors.push(event.error));
+
+      expect(ws.connectTimeout).toBeDefined();
+      timeouts.get(ws.connectTimeout as any)!();
+
+      expect(errors).toEqual([new Error("URL provider timed out after 50ms")]);
+      expect(ws.state).toBe("reconnect-wait");
+      expect(ws.reconnectTimeout).toBeDefined();
+
+      resolveUrl("ws://late");
+      await Promise.resolve();
+
+      expect(created.length).toBe(0);
+    });
+
+    it("should ignore a url resolved after close()", async () => {
+      let resolveUrl: (url: string) => void = () => {};
+
+      const ws = new ReconnectingWebSocket(
+        () => new Promise<string>((resolve) => (resolveUrl = resolve)),
+        { WebSocketConstructor: FakeWebSocket as any },
+      );
+
+      ws.close();
+      resolveUrl("ws://late");
+      await Promise.resolve();
+
+      expect(created.length).toBe(0);
+    });
+  });
+
+  describe("multiple endpoints", () => {
+    const urlsOf = (sockets: any[]) => sockets.map((socket) => socket.url);
+
+    class UrlWebSocket extends FakeWebSocket {
+      url: string;
+      constructor(url: string, protocols?: string | string[]) {
+        super(url, protocols);
+        this.url = url;
+      }
+    }
+
+    it("should fail over to the next endpoint and emit endpointchange", () => {
+      const ws = new ReconnectingWebSocket(["ws://a", "ws://b"], {
+        WebSocketConstructor: UrlWebSocket as any,
+      });
+
+      const changes: EndpointChangeEvent[] = [];
+      ws.addEventListener("endpointchange", (event) => changes.push(event));
+
+      expect(ws.currentUrl).toBe("ws://a");
+
+      created[0].dispatchEvent(new CloseEvent("close"));
+      fireReconnect(ws);
+
+      expect(urlsOf(created)).toEqual(["ws://a", "ws://b"]);
+      expect(ws.currentUrl).toBe("ws://b");
+      expect(changes).toEqual([{ previousIndex: 0, index: 1, url: "ws://b" }]);
+    });
+
+    it("should track backoff per endpoint", () => {
+      const attempts: number[] = [];
+
+      const ws = new ReconnectingWebSocket(["ws://a", "ws://b"], {
+        WebSocketConstructor: UrlWebSocket as any,
+        reconnectPolicy: {
+          nextDelay: ({ attempt }) => {
+            attempts.push(attempt);
+            return 100;
+          },
+        },
+      });
+
+      for (let i = 0; i < 4; i++) {
+        created[i].dispatchEvent(new CloseEvent("close"));
+        fireReconnect(ws);
+      }
+
+      expect(attempts).toEqual([0, 1, 1, 2]);
+    });
+
+    it("should reconnect to the primary endpoint after returnToPrimaryAfter", () => {
+      const ws = new ReconnectingWebSocket(["ws://primary", "ws://fallback"], {
+        WebSocketConstructor: UrlWebSocket as any,
+        endpointStrategy: "primary",
+        returnToPrimaryAfter: 60_000,
+      });
+
+      created[0].dispatchEvent(new CloseEvent("close"));
+      fireReconnect(ws);
+
+      const fallback = created[1];
+      fallback.readyState = FakeWebSocket.OPEN;
+      fallback.dispatchEvent(new Event("open"));
+
+      expect(ws.currentUrl).toBe("ws://fallback");
+      expect(ws.failbackTimeout).toBeDefined();
+
+      // Fire the failback timer
+      timeouts.get(ws.failbackTimeout as any)!();
+
+      expect(urlsOf(created)).toEqual([
+        "ws://primary",
+        "ws://fallback",
+        "ws://primary",
+      ]);
+      expect(fallback.readyState).toBe(FakeWebSocket.CLOSED);
+      expect(ws.currentUrl).toBe("ws://primary");
+    });
+  });
+
+  describe("protocols and binaryType", () => {
+    class ProtocolWebSocket extends FakeWebSocket {
+      protocols?: string | string[];
+      protocol = "";
+      extensions = "";
+      binaryType: BinaryType = "blob";
+      constructor(url: string, protocols?: string | string[]) {
+        super(url, protocols);
+        this.protocols = protocols;
+      }
+    }
+
+    it("should pass static protocols and binaryType to every socket", () => {
+      new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: ProtocolWebSocket as any,
+        protocols: ["v2.json", "v1.json"],
+        binaryType: "arraybuffer",
+      });
+
+      created[0].dispatchEvent(new CloseEvent("close"));
+      flushTimers();
+
+      expect(created.map((socket) => socket.protocols)).toEqual([
+        ["v2.json", "v1.json"],
+        ["v2.json", "v1.json"],
+      ]);
+      expect(created.map((socket) => socket.binaryType)).toEqual([
+        "arraybuffer",
+        "arraybuffer",
+      ]);
+    });
+
+    it("should resolve protocols per attempt", () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: ProtocolWebSocket as any,
+        protocols: (attempt) => (attempt === 0 ? "v2" : undefined),
+      });
+
+      created[0].dispatchEvent(new CloseEvent("close"));
+      fireReconnect(ws);
+
+      expect(created.map((socket) => socket.protocols)).toEqual([
+        "v2",
+        undefined,
+      ]);
+    });
+
+    it("should reflect the negotiated protocol and extensions", () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: ProtocolWebSocket as any,
+        protocols: ["v2", "v1"],
+      });
+
+      expect(ws.protocol).toBe("");
+
+      const instance = created[0];
+      instance.protocol = "v1";
+      instance.extensions = "permessage-deflate";
+
+      expect(ws.protocol).toBe("v1");
+      expect(ws.extensions).toBe("permessage-deflate");
+    });
+
+    it("should apply binaryType set after construction", () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: ProtocolWebSocket as any,
+      });
+
+      expect(ws.binaryType).toBe("blob");
+
+      ws.binaryType = "arraybuffer";
+      expect(created[0].binaryType).toBe("arraybuffer");
+
+      created[0].dispatchEvent(new CloseEvent("close"));
+      flushTimers();
+      expect(created[1].binaryType).toBe("arraybuffer");
+    });
+  });
+
+  describe("native WebSocket compatibility", () => {
+    it("should be an EventTarget with the WebSocket constants", () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+      });
+
+      expect(ws).toBeInstanceOf(EventTarget);
+      expect([
+        ReconnectingWebSocket.CONNECTING,
+        ReconnectingWebSocket.OPEN,
+        ReconnectingWebSocket.CLOSING,
+        ReconnectingWebSocket.CLOSED,
+      ]).toEqual([0, 1, 2, 3]);
+      expect(ws.OPEN).toBe(WebSocket.OPEN);
+      expect(ws.url).toBe("ws://test");
+    });
+
+    it("should call on* event handler properties", () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+      });
+
+      const calls: string[] = [];
+      ws.onopen = function () {
+        calls.push(this === ws ? "open" : "wrong this");
+      };
+      ws.onmessage = (event) => calls.push(`message:${event.data}`);
+      ws.onerror = () => calls.push("error");
+      ws.onclose = (event) => calls.push(`close:${event.code}`);
+
+      const instance = created[0];
+      instance.readyState = FakeWebSocket.OPEN;
+      instance.dispatchEvent(new Event("open"));
+      instance.dispatchEvent(new MessageEvent("message", { data: "hi" }));
+      instance.dispatchEvent(new Event("error"));
+      instance.dispatchEvent(new CloseEvent("close", { code: 1006 }));
+
+      expect(calls).toEqual(["open", "message:hi", "error", "close:1006"]);
+    });
+
+    it("should support once, signal and listener objects", () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+      });
+
+      const controller = new AbortController();
+      const calls: string[] = [];
+
+      ws.addEventListener("message", () => calls.push("once"), { once: true });
+      ws.addEventListener("message", () => calls.push("signal"), {
+        signal: controller.signal,
+      });
+      ws.addEventListener("message", {
+        handleEvent: (event: MessageEvent) => calls.push(event.data),
+      });
+
+      const instance = created[0];
+      instance.dispatchEvent(new MessageEvent("message", { data: "first" }));
+      controller.abort();
+      instance.dispatchEvent(new MessageEvent("message", { data: "second" }));
+
+      expect(calls).toEqual(["once", "signal", "first", "second"]);
+    });
+
+    it("should not add the same listener twice", () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+      });
+
+      let calls = 0;
+      const listener = () => calls++;
+      ws.addEventListener("message", listener);
+      ws.addEventListener("message", listener);
+
+      created[0].dispatchEvent(new MessageEvent("message", { data: "x" }));
+
+      expect(calls).toBe(1);
+    });
+
+    it("should accept protocols as the second constructor argument", () => {
+      const protocols: any[] = [];
+
+      class RecordingWebSocket extends FakeWebSocket {
+        constructor(url: string, protocolsArg?: string | string[]) {
+          super(url, protocolsArg);
+          protocols.push(protocolsArg);
+        }
+      }
+
+      const original = globalThis.WebSocket;
+      globalThis.WebSocket = RecordingWebSocket as any;
+
+      try {
+        new ReconnectingWebSocket("ws://test", ["graphql-transport-ws"]);
+      } finally {
+        globalThis.WebSocket = original;
+      }
+
+      expect(protocols).toEqual([["graphql-transport-ws"]]);
+    });
+
+    it("should route dispatchEvent through its own listeners", () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+      });
+
+      const received: string[] = [];
+      ws.addEventListener("open", (event: Event) => received.push(event.type));
+      ws.addEventListener("custom", (event: Event) =>
+        received.push(event.type),
+      );
+
+      ws.dispatchEvent(new Event("open"));
+      ws.dispatchEvent(new Event("custom"));
+
+      expect(received).toEqual(["open", "custom"]);
+    });
+  });
+
+  describe("typed messages", () => {
+    interface Incoming {
+      channel: string;
+      price: number;
+    }
+
+    interface Outgoing {
+      op: "subscribe" | "unsubscribe";
+      channel: string;
+    }
+
+    const codec: MessageCodec<Incoming, Outgoing> = {
+      encode: (message) => JSON.stringify(message),
+      decode: (data) => JSON.parse(data),
+    };
+
+    it("should decode incoming messages before dispatching them", () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        codec,
+      });
+
+      const prices: number[] = [];
+      ws.addEventListener("message", (event) => prices.push(event.data.price));
+
+      created[0].dispatchEvent(
+        new MessageEvent("message", {
+          data: JSON.stringify({ channel: "btc", price: 42 }),
+        }),
+      );
+
+      expect(prices).toEqual([42]);
+    });
+
+    it("should encode outgoing messages, including queued ones", () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        codec,
+      });
+
+      ws.send({ op: "subscribe", channel: "btc" });
+
+      const instance = created[0];
+      instance.readyState = FakeWebSocket.OPEN;
+      instance.dispatchEvent(new Event("open"));
+      ws.send({ op: "unsubscribe", channel: "btc" });
+
+      expect(instance.sentData).toEqual([
+        '{"op":"subscribe","channel":"btc"}',
+        '{"op":"unsubscribe","channel":"btc"}',
+      ]);
+
+      // @ts-expect-error send only accepts the codec's outgoing type
+      expect(() => ws.send("raw")).not.toThrow();
+    });
+
+    it("should infer listener payloads from the event map", () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+      });
+
+      const codes: number[] = [];
+      ws.addEventListener("close", ({ code, decision }) =>
+        codes.push(decision.action === "retry" ? code : -1),
+      );
+      // @ts-expect-error close payloads have no data
+      ws.addEventListener("close", (event) => event.data);
+
+      created[0].dispatchEvent(new CloseEvent("close", { code: 1006 }));
+
+      expect(codes).toEqual([1006]);
+    });
+  });
+
+  describe("built-in codecs", () => {
+    it("should report malformed frames as decodeerror instead of message", () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        codec: new JsonCodec<{ id: number }>(),
+      });
+
+      const ids: number[] = [];
+      const errors: DecodeErrorEvent[] = [];
+      ws.addEventListener("message", (event) => ids.push(event.data.id));
+      ws.addEventListener("decodeerror", (event) => errors.push(event));
+
+      created[0].dispatchEvent(
+        new MessageEvent("message", { data: "not json" }),
+      );
+      created[0].dispatchEvent(
+        new MessageEvent("message", { data: '{"id":1}' }),
+      );
+
+      expect(ids).toEqual([1]);
+      expect(errors).toHaveLength(1);
+      expect(errors[0].data).toBe("not json");
+      expect(errors[0].error).toBeInstanceOf(SyntaxError);
+    });
+
+    it("should send MessagePack frames as binary", () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        codec: new MessagePackCodec<unknown, { op: string }>(),
+      });
+
+      ws.send({ op: "ping" });
+
+      const instance = created[0];
+      instance.readyState = FakeWebSocket.OPEN;
+      instance.dispatchEvent(new Event("open"));
+
+      expect(instance.sentData).toHaveLength(1);
+      expect(instance.sentData[0]).toBeInstanceOf(Uint8Array);
+      expect(new MessagePackCodec().decode(instance.sentData[0])).toEqual({
+        op: "ping",
+      });
+    });
+  });
+
+  describe("requests", () => {
+    const respond = (ws: any, data: unknown) =>
+      ws.dispatchEvent(
+        new MessageEvent("message", { data: JSON.stringify(data) }),
+      );
+
+    it("should resolve with the response carrying the same id", async () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        codec: new JsonCodec(),
+      });
+      open(created[0]);
+
+      const messages: unknown[] = [];
+      ws.addEventListener("message", (event) => messages.push(event.data));
+
+      const response = ws.request({ method: "time" });
+      expect(created[0].sentData).toEqual(['{"method":"time","id":1}']);
+
+      respond(created[0], { type: "tick" });
+      respond(created[0], { id: 1, result: 42 });
+
+      expect(await response).toEqual({ id: 1, result: 42 });
+      expect(messages).toEqual([{ type: "tick" }]);
+    });
+
+    it("should use custom id injection and extraction", async () => {
+      const ws = new ReconnectingWebSocket<
+        { ref: number; ok: boolean },
+        { op: string; ref?: number }
+      >("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        codec: new JsonCodec(),
+        injectRequestId: (message, id) => ({ ...message, ref: id }),
+        extractRequestId: (message) => message.ref,
+      });
+
+      const response = ws.request({ op: "auth" });
+      open(created[0]);
+      expect(created[0].sentData).toEqual(['{"op":"auth","ref":1}']);
+
+      respond(created[0], { ref: 1, ok: true });
+      expect((await response).ok).toBe(true);
+    });
+
+    it("should reject requests whose message can't carry an id", async () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+      });
+      open(created[0]);
+
+      await expect(ws.request("hello")).rejects.toThrow(TypeError);
+      expect(created[0].sentData).toEqual([]);
+    });
+
+    it("should reject rather than throw when the queue is full", async () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        codec: new JsonCodec(),
+        maxQueueSize: 1,
+        queueOverflow: "throw",
+      });
+
+      ws.send({ method: "first" });
+      const response = ws.request({ method: "second" });
+
+      await expect(response).rejects.toThrow("Message queue is full");
+    });
+
+    it("should reject requests whose queued message is dropped", async () => {
+      const originalNow = Date.now;
+      let now = 1_000;
+      Date.now = () => now;
+
+      try {
+        const newest = new ReconnectingWebSocket("ws://test", {
+          WebSocketConstructor: FakeWebSocket as any,
+          codec: new JsonCodec(),
+          maxQueueSize: 1,
+          queueOverflow: "drop-newest",
+          requestTimeout: 0,
+        });
+
+        newest.send({ method: "first" });
+        await expect(newest.request({ method: "refused" })).rejects.toThrow(
+          "Request 1 was dropped from the queue (overflow)",
+        );
+
+        const oldest = new ReconnectingWebSocket("ws://test", {
+          WebSocketConstructor: FakeWebSocket as any,
+          codec: new JsonCodec(),
+          maxQueueSize: 1,
+          requestTimeout: 0,
+        });
+
+        const evicted = oldest.request({ method: "evicted" });
+        oldest.send({ method: "latest" });
+        await expect(evicted).rejects.toThrow(
+          "Request 1 was dropped from the queue (overflow)",
+        );
+
+        const expiring = new ReconnectingWebSocket("ws://test", {
+          WebSocketConstructor: FakeWebSocket as any,
+          codec: new JsonCodec(),
+          queueTtl: 500,
+          requestTimeout: 0,
+        });
+
+        const expired = expiring.request({ method: "stale" });
+        now = 1_600;
+        open(created[2]);
+        await expect(expired).rejects.toThrow(
+          "Request 1 was dropped from the queue (expired)",
+        );
+      } finally {
+        Date.now = originalNow;
+      }
+    });
+
+    it("should reject requests that time out", async () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        codec: new JsonCodec(),
+      });
+      open(created[0]);
+
+      const response = ws.request({ method: "slow" }, { timeout: 100 });
+      flushTimers();
+
+      await expect(response).rejects.toThrow("Request 1 timed out after 100ms");
+    });
+
+    it("should reject in-flight requests when the connection drops", async () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        codec: new JsonCodec(),
+      });
+      open(created[0]);
+
+      const response = ws.request({ method: "time" });
+      created[0].dispatchEvent(new CloseEvent("close", { code: 1006 }));
+
+      await expect(response).rejects.toThrow(
+        "Connection closed before request 1 was answered",
+      );
+    });
+
+    it("should resend in-flight requests after reconnecting", async () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        codec: new JsonCodec(),
+        inFlightRequests: "resend",
+      });
+      open(created[0]);
+
+      const response = ws.request({ method: "time" });
+      created[0].dispatchEvent(new CloseEvent("close", { code: 1006 }));
+      fireReconnect(ws);
+      open(created[1]);
+
+      expect(created[1].sentData).toEqual(['{"method":"time","id":1}']);
+
+      respond(created[1], { id: 1, result: 42 });
+      expect(await response).toEqual({ id: 1, result: 42 });
+    });
+
+    it("should reject pending requests on close()", async () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        codec: new JsonCodec(),
+      });
+
+      const response = ws.request({ method: "time" });
+      ws.close();
+
+      await expect(response).rejects.toThrow("WebSocket closed");
+      expect(timeouts.size).toBe(0);
+    });
+  });
+
+  describe("subscriptions", () => {
+    const reconnect = (ws: ReconnectingWebSocket<any, any>) => {
+      created.at(-1).dispatchEvent(new CloseEvent("close", { code: 1006 }));
+      fireReconnect(ws);
+      open(created.at(-1));
+    };
+
+    it("should send subscriptions on open and replay them on reconnect", () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+      });
+
+      ws.subscribe("btc", "sub:btc", "unsub:btc");
+      ws.send("queued");
+      open(created[0]);
+      ws.subscribe("eth", "sub:eth");
+
+      expect(created[0].sentData).toEqual(["sub:btc", "queued", "sub:eth"]);
+
+      reconnect(ws);
+      expect(created[1].sentData).toEqual(["sub:btc", "sub:eth"]);
+    });
+
+    it("should stop replaying after unsubscribe", () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+      });
+      open(created[0]);
+
+      const btc = ws.subscribe("btc", "sub:btc", "unsub:btc");
+      ws.subscribe("eth", "sub:eth");
+      btc.unsubscribe();
+      btc.unsubscribe();
+
+      expect(created[0].sentData).toEqual(["sub:btc", "sub:eth", "unsub:btc"]);
+
+      reconnect(ws);
+      expect(created[1].sentData).toEqual(["sub:eth"]);
+    });
+
+    it("should keep a newer subscription with the same key", () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+      });
+
+      const first = ws.subscribe("btc", "sub:btc:1m");
+      ws.subscribe("btc", "sub:btc:5m");
+      first.unsubscribe();
+      open(created[0]);
+
+      expect(created[0].sentData).toEqual(["sub:btc:5m"]);
+    });
+
+    it("should batch replayed subscriptions in chunks", () => {
+      const ws = new ReconnectingWebSocket<
+        unknown,
+        { op: string; args: string[] }
+      >("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        codec: new JsonCodec(),
+        batchSubscriptions: (messages) => ({
+          op: "subscribe",
+          args: messages.flatMap((message) => message.args),
+        }),
+        maxSubscriptionsPerMessage: 2,
+      });
+
+      for (const topic of ["a", "b", "c"]) {
+        ws.subscribe(topic, { op: "subscribe", args: [topic] });
+      }
+      open(created[0]);
+
+      expect(created[0].sentData).toEqual([
+        '{"op":"subscribe","args":["a","b"]}',
+        '{"op":"subscribe","args":["c"]}',
+      ]);
+    });
+
+    it("should forget subscriptions on close()", () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+      });
+
+      ws.subscribe("btc", "sub:btc");
+      ws.close();
+      ws.connect();
+      open(created[1]);
+
+      expect(created[1].sentData).toEqual([]);
+    });
+  });
+
+  describe("acknowledged delivery", () => {
+    const ack = (ws: any, id: number) =>
+      ws.dispatchEvent(
+        new MessageEvent("message", { data: JSON.stringify({ ack: id }) }),
+      );
+
+    it("should resolve send() once the server acknowledges the message", async () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        codec: new JsonCodec(),
+        delivery: "at-least-once",
+      });
+      open(created[0]);
+
+      const messages: unknown[] = [];
+      ws.addEventListener("message", (event) => messages.push(event.data));
+
+      const delivered = ws.send({ order: "buy" });
+      expect(created[0].sentData).toEqual(['{"order":"buy","id":1}']);
+
+      ack(created[0], 1);
+      await delivered;
+      expect(messages).toEqual([]);
+    });
+
+    it("should reject messages that can't carry an id", async () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        delivery: "at-least-once",
+      });
+      open(created[0]);
+
+      await expect(ws.send("hello")!).rejects.toThrow(TypeError);
+      await expect(ws.send(new Uint8Array([1]))!).rejects.toThrow(TypeError);
+      expect(created[0].sentData).toEqual([]);
+    });
+
+    it("should resend unacked messages in order after reconnecting", () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        codec: new JsonCodec(),
+        delivery: "at-least-once",
+      });
+
+      ws.send({ n: 1 });
+      open(created[0]);
+      ws.send({ n: 2 });
+      ws.send({ n: 3 });
+      ack(created[0], 2);
+
+      created[0].dispatchEvent(new CloseEvent("close", { code: 1006 }));
+      ws.send({ n: 4 });
+      fireReconnect(ws);
+      open(created[1]);
+
+      expect(created[1].sentData).toEqual([
+        '{"n":1,"id":1}',
+        '{"n":3,"id":3}',
+        '{"n":4,"id":4}',
+      ]);
+    });
+
+    it("should use custom id injection and ack matching", async () => {
+      const ws = new ReconnectingWebSocket<
+        { type: string; ref: number },
+        { type: string; ref?: number }
+      >("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        codec: new JsonCodec(),
+        delivery: "at-least-once",
+        injectMessageId: (message, id) => ({ ...message, ref: id }),
+        extractAckId: (message) =>
+          message.type === "ack" ? message.ref : undefined,
+      });
+      open(created[0]);
+
+      const delivered = ws.send({ type: "order" });
+      created[0].dispatchEvent(
+        new MessageEvent("message", {
+          data: JSON.stringify({ type: "ack", ref: 1 }),
+        }),
+      );
+
+      await delivered;
+    });
+
+    it("should reject unacked messages on close()", async () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        codec: new JsonCodec(),
+        delivery: "at-least-once",
+      });
+
+      const delivered = ws.send({ text: "hello" });
+      ws.close();
+
+      await expect(delivered).rejects.toThrow("WebSocket closed");
+    });
+
+    it("should return nothing from send() by default", () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+      });
+
+      expect(ws.send("hello")).toBeUndefined();
+    });
+  });
+
+  describe("session resume", () => {
+    const receive = (ws: any, seq: number) =>
+      ws.dispatchEvent(
+        new MessageEvent("message", { data: JSON.stringify({ seq }) }),
+      );
+
+    const reconnect = (ws: ReconnectingWebSocket<any, any>) => {
+      created.at(-1).dispatchEvent(new CloseEvent("close", { code: 1006 }));
+      fireReconnect(ws);
+    };
+
+    it("should emit gap when a sequence number is skipped", () => {
+      const ws = new ReconnectingWebSocket<{ seq: number }>("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        codec: new JsonCodec(),
+        extractSequence: (message) => message.seq,
+      });
+      open(created[0]);
+
+      const gaps: GapEvent[] = [];
+      const received: number[] = [];
+      ws.addEventListener("gap", (event) => gaps.push(event));
+      ws.addEventListener("message", (event) => received.push(event.data.seq));
+
+      for (const seq of [1, 2, 5, 3, 6]) receive(created[0], seq);
+
+      expect(gaps).toEqual([{ expected: 3, received: 5 }]);
+      expect(received).toEqual([1, 2, 5, 3, 6]);
+      expect(ws.lastSequence).toBe(6);
+    });
+
+    it("should pass the last sequence to the resume URL builder", () => {
+      const ws = new ReconnectingWebSocket<{ seq: number }>("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        codec: new JsonCodec(),
+        extractSequence: (message) => message.seq,
+        resumeUrl: (url, seq) => `${url}?from=${seq + 1}`,
+      });
+
+      expect(ws.url).toBe("ws://test");
+
+      open(created[0]);
+      receive(created[0], 41);
+      reconnect(ws);
+
+      expect(ws.url).toBe("ws://test?from=42");
+    });
+
+    it("should send the resume message before anything else", () => {
+      const ws = new ReconnectingWebSocket<
+        { seq: number },
+        { op: string; seq?: number }
+      >("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        codec: new JsonCodec(),
+        extractSequence: (message) => message.seq,
+        resumeMessage: (seq) => ({ op: "resume", seq }),
+      });
+      open(created[0]);
+      ws.subscribe("trades", { op: "subscribe" });
+      receive(created[0], 7);
+
+      expect(created[0].sentData).toEqual(['{"op":"subscribe"}']);
+
+      reconnect(ws);
+      ws.send({ op: "queued" });
+      open(created[1]);
+
+      expect(created[1].sentData).toEqual([
+        '{"op":"resume","seq":7}',
+        '{"op":"subscribe"}',
+        '{"op":"queued"}',
+      ]);
+    });
+  });
+
+  describe("bounded queue", () => {
+    it("should drop the oldest queued messages by default", () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        maxQueueSize: 2,
+      });
+
+      const drops: DropEvent[] = [];
+      ws.addEventListener("drop", (event) => drops.push(event));
+
+      ws.send("a");
+      ws.send("b");
+      ws.send("c");
+      open(created[0]);
+
+      expect(created[0].sentData).toEqual(["b", "c"]);
+      expect(drops).toEqual([{ reason: "overflow", messages: ["a"] }]);
+    });
+
+    it("should throw or reject when the queue is full", async () => {
+      const throwing = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        maxQueueBytes: 4,
+        queueOverflow: "throw",
+      });
+
+      throwing.send("abcd");
+      expect(() => throwing.send("e")).toThrow("Message queue is full");
+
+      const rejecting = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        codec: new JsonCodec(),
+        maxQueueSize: 1,
+        queueOverflow: "reject",
+      });
+
+      expect(rejecting.send("a")).toBeUndefined();
+      await expect(rejecting.send("b")).rejects.toThrow(
+        "Message queue is full",
+      );
+      await expect(rejecting.request({ method: "time" })).rejects.toThrow(
+        "Message queue is full",
+      );
+    });
+
+    it("should discard expired messages when flushing", () => {
+      const originalNow = Date.now;
+      let now = 1_000;
+      Date.now = () => now;
+
+      try {
+        const ws = new ReconnectingWebSocket("ws://test", {
+          WebSocketConstructor: FakeWebSocket as any,
+          queueTtl: 500,
+        });
+
+        const drops: DropEvent[] = [];
+        ws.addEventListener("drop", (event) => drops.push(event));
+
+        ws.send("stale");
+        now = 1_400;
+        ws.send("fresh");
+        now = 1_600;
+        open(created[0]);
+
+        expect(created[0].sentData).toEqual(["fresh"]);
+        expect(drops).toEqual([{ reason: "expired", messages: ["stale"] }]);
+      } finally {
+        Date.now = originalNow;
+      }
+    });
+  });
+
+  describe("coalescing", () => {
+    it("should only send the latest queued message per coalesce key", () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+      });
+
+      ws.send("filters:a", { coalesceKey: "filters" });
+      ws.send("hello");
+      ws.send("filters:b", { coalesceKey: "filters" });
+
+      const instance = created[0];
+      instance.readyState = FakeWebSocket.OPEN;
+      instance.dispatchEvent(new Event("open"));
+      ws.send("filters:c", { coalesceKey: "filters" });
+      ws.send("filters:d", { coalesceKey: "filters" });
+
+      expect(instance.sentData).toEqual([
+        "filters:b",
+        "hello",
+        "filters:c",
+        "filters:d",
+      ]);
+    });
+
+    it("should move coalesced messages to the end when configured", () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        coalescePosition: "move-to-end",
+      });
+
+      ws.send("filters:a", { coalesceKey: "filters" });
+      ws.send("hello");
+      ws.send("filters:b", { coalesceKey: "filters" });
+
+      const instance = created[0];
+      instance.readyState = FakeWebSocket.OPEN;
+      instance.dispatchEvent(new Event("open"));
+
+      expect(instance.sentData).toEqual(["hello", "filters:b"]);
+    });
+  });
+
+  describe("persistent queue", () => {
+    it("should flush messages queued by a previous instance on open", () => {
+      const storage = new MemoryQueueStorage();
+
+      const first = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        queueStorage: storage,
+      });
+      first.send("a");
+      first.send("b", { coalesceKey: "b" });
+      first.close();
+
+      expect(storage.messages).toEqual([
+        { type: "text", data: "a" },
+        { type: "text", data: "b", coalesceKey: "b" },
+      ]);
+
+      const second = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        queueStorage: storage,
+      });
+      second.send("c");
+      open(created[1]);
+
+      expect(created[1].sentData).toEqual(["a", "b", "c"]);
+      expect(storage.messages).toEqual([]);
+    });
+
+    it("should put asynchronously loaded messages ahead of new ones", async () => {
+      let resolveLoad!: (messages: StoredMessage[]) => void;
+      const saved: StoredMessage[][] = [];
+
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        queueStorage: {
+          load: () => new Promise((resolve) => (resolveLoad = resolve)),
+          save: (messages) => {
+            saved.push(messages);
+          },
+        },
+      });
+
+      ws.send("new");
+      expect(saved).toEqual([]);
+
+      resolveLoad([{ type: "text", data: "old" }]);
+      await Promise.resolve();
+
+      expect(saved).toEqual([
+        [
+          { type: "text", data: "old" },
+          { type: "text", data: "new" },
+        ],
+      ]);
+    });
+
+    it("should hold the flush until a slow load settles", async () => {
+      let resolveLoad!: (messages: StoredMessage[]) => void;
+
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        queueStorage: {
+          load: () => new Promise((resolve) => (resolveLoad = resolve)),
+          save: () => {},
+        },
+      });
+
+      ws.send("queued");
+      open(created[0]);
+      ws.send("new");
+
+      expect(created[0].sentData).toEqual([]);
+
+      resolveLoad([{ type: "text", data: "old" }]);
+      await Promise.resolve();
+
+      expect(created[0].sentData).toEqual(["old", "queued", "new"]);
+    });
+
+    it("should report storage failures as error events", () => {
+      const errors: unknown[] = [];
+
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        queueStorage: {
+          load: () => [],
+          save: () => {
+            throw new Error("Quota exceeded");
+          },
+        },
+      });
+      ws.addEventListener("error", (event) => errors.push(event.error));
+
+      ws.send("a");
+
+      expect(errors).toEqual([new Error("Quota exceeded")]);
+    });
+
+    it("should report synchronous load failures to listeners added after creation", async () => {
+      const errors: unknown[] = [];
+
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        queueStorage: {
+          load: () => {
+            throw new Error("Corrupted queue");
+          },
+          save: () => {},
+        },
+      });
+      ws.addEventListener("error", (event) => errors.push(event.error));
+
+      await Promise.resolve();
+
+      expect(errors).toEqual([new Error("Corrupted queue")]);
+    });
+  });
+
+  describe("send pacing", () => {
+    let originalNow: typeof Date.now;
+    let now: number;
+
+    beforeEach(() => {
+      originalNow = Date.now;
+      now = 0;
+      Date.now = () => now;
+    });
+
+    afterEach(() => {
+      Date.now = originalNow;
+    });
+
+    const fireFlush = (ws: ReconnectingWebSocket<any, any>) => {
+      const id = ws.flushTimeout as any;
+      const fn = timeouts.get(id);
+      timeouts.delete(id);
+      fn?.();
+    };
+
+    it("should rate limit queue flushing and live sends", () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        rateLimit: 2,
+        rateLimitInterval: 1000,
+      });
+
+      ws.send("a");
+      ws.send("b");
+      ws.send("c");
+      open(created[0]);
+      ws.send("d");
+
+      expect(created[0].sentData).toEqual(["a", "b"]);
+
+      now = 500;
+      fireFlush(ws);
+      expect(created[0].sentData).toEqual(["a", "b", "c"]);
+
+      now = 1000;
+      fireFlush(ws);
+      expect(created[0].sentData).toEqual(["a", "b", "c", "d"]);
+      expect(ws.flushTimeout).toBeUndefined();
+
+      // Tokens are back, live sends go straight out again
+      now = 2000;
+      ws.send("e");
+      expect(created[0].sentData.at(-1)).toBe("e");
+    });
+
+    it("should resend requests written by a partial flush", () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        codec: new JsonCodec(),
+        rateLimit: 1,
+        rateLimitInterval: 1000,
+        inFlightRequests: "resend",
+      });
+
+      ws.request({ method: "first" }).catch(() => {});
+      ws.request({ method: "second" }).catch(() => {});
+      open(created[0]);
+
+      expect(created[0].sentData).toEqual(['{"method":"first","id":1}']);
+
+      created[0].dispatchEvent(new CloseEvent("close", { code: 1006 }));
+      fireReconnect(ws);
+      now = 2000;
+      open(created[1]);
+      now = 3000;
+      fireFlush(ws);
+
+      expect(created[1].sentData).toEqual([
+        '{"method":"second","id":2}',
+        '{"method":"first","id":1}',
+      ]);
+    });
+
+    it("should rate limit replayed subscriptions ahead of the queue", () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        rateLimit: 2,
+        rateLimitInterval: 1000,
+      });
+
+      const topics = Array.from({ length: 10 }, (_, i) => `sub:${i}`);
+      for (const topic of topics) ws.subscribe(topic, topic);
+      ws.send("queued");
+      open(created[0]);
+      ws.send("live");
+
+      expect(created[0].sentData).toEqual(["sub:0", "sub:1"]);
+
+      while (ws.flushTimeout) {
+        now += 500;
+        fireFlush(ws);
+        expect(created[0].sentData.length).toBe(2 + now / 500);
+      }
+
+      expect(created[0].sentData).toEqual([...topics, "queued", "live"]);
+    });
+
+    it("should merge queued messages into batches", () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        batchMessages: (messages) => `[${messages.join(",")}]`,
+        maxBatchSize: 2,
+      });
+
+      for (const message of ["1", "2", "3", "4", "5"]) ws.send(message);
+      open(created[0]);
+
+      expect(created[0].sentData).toEqual(["[1,2]", "[3,4]", "5"]);
+    });
+
+    it("should pause flushing above the high-water mark", () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        highWaterMark: 10,
+      });
+
+      ws.send("a");
+      ws.send("b");
+
+      const instance = created[0];
+      instance.bufferedAmount = 11;
+      open(instance);
+      ws.send("c");
+
+      expect(instance.sentData).toEqual([]);
+
+      instance.bufferedAmount = 0;
+      fireFlush(ws);
+      expect(instance.sentData).toEqual(["a", "b", "c"]);
+    });
+  });
+
+  describe("backpressure", () => {
+    it("should resolve sendAsync right away below the high-water mark", async () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        highWaterMark: 100,
+      });
+      open(created[0]);
+
+      await ws.sendAsync("hello");
+      expect(created[0].sentData).toEqual(["hello"]);
+    });
+
+    it("should wait for the buffer to drain under the low-water mark", async () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        highWaterMark: 100,
+        lowWaterMark: 10,
+      });
+      open(created[0]);
+
+      let drains = 0;
+      ws.addEventListener("drain", () => drains++);
+
+      let resolved = false;
+      created[0].bufferedAmount = 150;
+      const sent = ws.sendAsync("big").then(() => (resolved = true));
+
+      await Promise.resolve();
+      expect(resolved).toBe(false);
+      expect(ws.drainCheckInterval).toBeDefined();
+
+      created[0].bufferedAmount = 50;
+      flushTimers();
+      await Promise.resolve();
+      expect(resolved).toBe(false);
+
+      created[0].bufferedAmount = 10;
+      flushTimers();
+      await sent;
+
+      expect(drains).toBe(1);
+      expect(ws.drainCheckInterval).toBeUndefined();
+    });
+
+    it("should count queued messages while disconnected", async () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        highWaterMark: 4,
+      });
+
+      let resolved = false;
+      const sent = ws.sendAsync("queued").then(() => (resolved = true));
+
+      await Promise.resolve();
+      expect(resolved).toBe(false);
+
+      open(created[0]);
+      await sent;
+      expect(created[0].sentData).toEqual(["queued"]);
+    });
+
+    it("should not wait for the ack with at-least-once delivery", async () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        codec: new JsonCodec(),
+        delivery: "at-least-once",
+      });
+      open(created[0]);
+
+      await ws.sendAsync({ order: "buy" });
+      expect(created[0].sentData).toEqual(['{"order":"buy","id":1}']);
+
+      await expect(ws.sendAsync("not an object")).rejects.toThrow(TypeError);
+    });
+
+    it("should reject pending sendAsync calls on close()", async () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        highWaterMark: 0,
+      });
+
+      const sent = ws.sendAsync("queued");
+      ws.close();
+
+      await expect(sent).rejects.toThrow("WebSocket closed");
+    });
+
+    it("should reject pending sendAsync calls and stop checking once failed", async () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        highWaterMark: 0,
+        maxRetries: 0,
+      });
+
+      const sent = ws.sendAsync("queued");
+      expect(ws.drainCheckInterval).toBeDefined();
+
+      created[0].dispatchEvent(new CloseEvent("close", { code: 1006 }));
+
+      expect(ws.failed).toBe(true);
+      expect(ws.drainCheckInterval).toBeUndefined();
+      await expect(sent).rejects.toThrow("Maximum retries reached");
+    });
+  });
+
+  describe("authentication", () => {
+    const flushPromises = () => new Promise((resolve) => setImmediate(resolve));
+
+    it("should hold the queue and open event until authenticated", async () => {
+      let resolveAuth!: () => void;
+      const contexts: AuthContext[] = [];
+
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        authenticate: (socket, context) => {
+          contexts.push(context);
+          socket.send("login");
+          return new Promise<void>((resolve) => (resolveAuth = resolve));
+        },
+      });
+
+      const events: string[] = [];
+      ws.addEventListener("open", () => events.push("open"));
+
+      ws.send("queued");
+      open(created[0]);
+      ws.send("during-auth");
+
+      expect(ws.authenticating).toBe(true);
+      expect(ws.readyState).toBe(ReconnectingWebSocket.CONNECTING);
+      expect(created[0].sentData).toEqual(["login"]);
+      expect(events).toEqual([]);
+
+      resolveAuth();
+      await flushPromises();
+
+      expect(ws.readyState).toBe(ReconnectingWebSocket.OPEN);
+      expect(events).toEqual(["open"]);
+      expect(created[0].sentData).toEqual(["login", "queued", "during-auth"]);
+      expect(contexts).toEqual([{ refreshCredentials: false }]);
+    });
+
+    it("should reconnect with backoff and refresh credentials after a failure", async () => {
+      const contexts: AuthContext[] = [];
+      let fail = true;
+
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        authenticate: async (_socket, context) => {
+          contexts.push(context);
+          if (fail) throw new Error("Invalid signature");
+        },
+      });
+
+      const errors: unknown[] = [];
+      const closes: CloseEventPayload[] = [];
+      ws.addEventListener("error", (event) => errors.push(event.error));
+      ws.addEventListener("close", (event) => closes.push(event));
+
+      open(created[0]);
+      await flushPromises();
+
+      expect(errors).toEqual([new Error("Invalid signature")]);
+      expect(closes.map(({ code, reason }) => [code, reason])).toEqual([
+        [4002, "Authentication failed"],
+      ]);
+      expect(ws.retryCount).toBe(1);
+      expect(ws.reconnectTimeout).toBeDefined();
+
+      fail = false;
+      fireReconnect(ws);
+      open(created[1]);
+      await flushPromises();
+
+      expect(contexts).toEqual([
+        { refreshCredentials: false },
+        { refreshCredentials: true },
+      ]);
+      expect(ws.readyState).toBe(ReconnectingWebSocket.OPEN);
+      expect(ws.retryCount).toBe(0);
+    });
+
+    it("should refresh credentials after a refresh-credentials close", async () => {
+      const contexts: AuthContext[] = [];
+
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        closeCodeRules: [{ code: 4401, action: "refresh-credentials" }],
+        authenticate: (_socket, context) => {
+          contexts.push(context);
+        },
+      });
+
+      open(created[0]);
+      await flushPromises();
+
+      created[0].dispatchEvent(new CloseEvent("close", { code: 4401 }));
+      fireReconnect(ws);
+      open(created[1]);
+      await flushPromises();
+
+      expect(contexts).toEqual([
+        { refreshCredentials: false },
+        { refreshCredentials: true },
+      ]);
+    });
+
+    it("should fail authentication after authTimeout", () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        authTimeout: 5000,
+        authenticate: () => new Promise<void>(() => {}),
+      });
+
+      const errors: unknown[] = [];
+      ws.addEventListener("error", (event) => errors.push(event.error));
+
+      open(created[0]);
+      const id = ws.authTimeout as any;
+      timeouts.get(id)?.();
+
+      expect(errors).toEqual([
+        new Error("Authentication timed out after 5000ms"),
+      ]);
+      expect(ws.authenticating).toBe(false);
+      expect(ws.reconnectTimeout).toBeDefined();
+    });
+  });
+
+  describe("connection state", () => {
+    const recordStates = (ws: ReconnectingWebSocket) => {
+      const changes: StateChangeEvent[] = [];
+      ws.addEventListener("statechange", (change) => changes.push(change));
+      return changes;
+    };
+
+    it("should go through connecting, open and reconnect-wait", () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+      });
+      const changes = recordStates(ws);
+
+      expect(ws.state).toBe("connecting");
+
+      open(created[0]);
+      created[0].dispatchEvent(
+        new CloseEvent("close", { code: 1006, reason: "" }),
+      );
+      fireReconnect(ws);
+
+      expect(changes).toEqual([
+        { previous: "connecting", state: "open", reason: "Socket opened" },
+        {
+          previous: "open",
+          state: "reconnect-wait",
+          reason: "Closed with code 1006",
+        },
+        {
+          previous: "reconnect-wait",
+          state: "connecting",
+          reason: "Reconnect",
+        },
+      ]);
+    });
+
+    it("should stop connection timers when leaving open", () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        heartbeatInterval: 1000,
+        watchingInactivityTimeout: 5000,
+      });
+
+      open(created[0]);
+      expect(ws.heartbeatInterval).toBeDefined();
+      expect(ws.inactivityTimeout).toBeDefined();
+
+      created[0].dispatchEvent(new CloseEvent("close", { code: 1001 }));
+
+      expect(ws.state).toBe("reconnect-wait");
+      expect(ws.heartbeatInterval).toBeUndefined();
+      expect(ws.inactivityTimeout).toBeUndefined();
+      expect(ws.healthCheckInterval).toBeUndefined();
+    });
+
+    it("should authenticate before opening", async () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        authenticate: () => {},
+      });
+      const changes = recordStates(ws);
+
+      open(created[0]);
+      expect(ws.state).toBe("authenticating");
+
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(changes.map(({ state, reason }) => [state, reason])).toEqual([
+        ["authenticating", "Socket opened"],
+        ["open", "Authenticated"],
+      ]);
+    });
+
+    it("should go through closing when closing an open connection", () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+      });
+      const changes = recordStates(ws);
+
+      open(created[0]);
+      ws.close();
+
+      expect(changes.slice(1)).toEqual([
+        { previous: "open", state: "closing", reason: "Closed by the client" },
+        {
+          previous: "closing",
+          state: "closed",
+          reason: "Closed by the client",
+        },
+      ]);
+
+      ws.connect();
+      expect(ws.state).toBe("connecting");
+    });
+
+    it("should close directly while waiting to reconnect", () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+      });
+
+      open(created[0]);
+      created[0].dispatchEvent(new CloseEvent("close", { code: 1001 }));
+      const changes = recordStates(ws);
+
+      ws.close();
+
+      expect(changes).toEqual([
+        {
+          previous: "reconnect-wait",
+          state: "closed",
+          reason: "Closed by the client",
+        },
+      ]);
+      expect(ws.reconnectTimeout).toBeUndefined();
+    });
+
+    it("should fail with the reason for giving up", () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        maxRetries: 0,
+      });
+      const changes = recordStates(ws);
+
+      created[0].dispatchEvent(new CloseEvent("close", { code: 1006 }));
+
+      expect(ws.state).toBe("failed");
+      expect(ws.failed).toBe(true);
+      expect(changes).toEqual([
+        {
+          previous: "connecting",
+          state: "reconnect-wait",
+          reason: "Closed with code 1006",
+        },
+        {
+          previous: "reconnect-wait",
+          state: "failed",
+          reason: "Maximum retries reached",
+        },
+      ]);
+    });
+
+    it("should leave open before close listeners run", async () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        watchingInactivityTimeout: 1000,
+      });
+
+      const states: string[] = [];
+      const ready: Promise<void>[] = [];
+      ws.addEventListener("close", () => {
+        states.push(ws.state);
+        ready.push(ws.ready());
+      });
+
+      let resolved = false;
+      open(created[0]);
+      created[0].dispatchEvent(new CloseEvent("close", { code: 1006 }));
+      ready[0].then(() => (resolved = true));
+
+      await Promise.resolve();
+      expect(resolved).toBe(false);
+
+      fireReconnect(ws);
+      open(created[1]);
+      await ready[0];
+
+      // A local teardown too
+      timeouts.get(ws.inactivityTimeout as any)!();
+
+      expect(states).toEqual(["reconnect-wait", "reconnect-wait"]);
+    });
+
+    it("should fail before close listeners run when not retrying", () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+      });
+
+      const states: string[] = [];
+      ws.addEventListener("close", () => states.push(ws.state));
+
+      open(created[0]);
+      created[0].dispatchEvent(new CloseEvent("close", { code: 1008 }));
+
+      expect(states).toEqual(["failed"]);
+      expect(ws.failed).toBe(true);
+    });
+
+    it("should not reconnect when closed from a close listener", () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+      });
+
+      ws.addEventListener("close", () => ws.close());
+
+      open(created[0]);
+      created[0].dispatchEvent(new CloseEvent("close", { code: 1001 }));
+
+      expect(ws.state).toBe("closed");
+      expect(ws.reconnectTimeout).toBeUndefined();
+    });
+  });
+
+  describe("lifecycle promises", () => {
+    const lastTimeout = () => timeouts.get(Math.max(...timeouts.keys()))!;
+
+    it("should resolve ready() on the next open and remove its listener", async () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+      });
+
+      const ready = ws.ready();
+      expect(ws.listeners.statechange.length).toBe(1);
+
+      open(created[0]);
+
+      await ready;
+      expect(ws.listeners.statechange).toEqual([]);
+    });
+
+    it("should resolve ready() right away when already open", async () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+      });
+
+      open(created[0]);
+
+      await ws.ready();
+      expect(ws.listeners.statechange).toEqual([]);
+    });
+
+    it("should reject ready() on close() or when giving up", async () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        maxRetries: 0,
+      });
+
+      const ready = ws.ready();
+      ws.close();
+      await expect(ready).rejects.toThrow("WebSocket closed");
+      await expect(ws.ready()).rejects.toThrow("WebSocket closed");
+
+      ws.connect();
+      const failed = ws.ready();
+      created[1].dispatchEvent(new CloseEvent("close", { code: 1006 }));
+      await expect(failed).rejects.toThrow("WebSocket connection failed");
+    });
+
+    it("should reject ready() after the timeout", async () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+      });
+
+      const ready = ws.ready({ timeout: 5000 });
+      lastTimeout()();
+
+      await expect(ready).rejects.toThrow(
+        "Timed out waiting for statechange after 5000ms",
+      );
+      expect(ws.listeners.statechange).toEqual([]);
+    });
+
+    it("should resolve closed() on close()", async () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+      });
+
+      const closed = ws.closed();
+      open(created[0]);
+      created[0].dispatchEvent(new CloseEvent("close", { code: 1006 }));
+      ws.close();
+
+      await closed;
+      expect(ws.state).toBe("closed");
+      await ws.closed();
+    });
+
+    it("should resolve waitFor() with the first event passing the filter", async () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+      });
+
+      const message = ws.waitFor("message", {
+        filter: (event) => event.data === "b",
+      });
+
+      open(created[0]);
+      created[0].dispatchEvent(new MessageEvent("message", { data: "a" }));
+      created[0].dispatchEvent(new MessageEvent("message", { data: "b" }));
+
+      expect((await message).data).toBe("b");
+      expect(ws.listeners.message).toEqual([]);
+    });
+
+    it("should reject waitFor() when its filter throws", async () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+      });
+
+      const message = ws.waitFor("message", {
+        filter: () => {
+          throw new Error("Bad filter");
+        },
+      });
+
+      open(created[0]);
+      created[0].dispatchEvent(new MessageEvent("message", { data: "a" }));
+
+      await expect(message).rejects.toThrow("Bad filter");
+      expect(ws.listeners.message).toEqual([]);
+    });
+
+    it("should reject waitFor() with the abort reason", async () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+      });
+
+      const controller = new AbortController();
+      const opened = ws.waitFor("open", { signal: controller.signal });
+      controller.abort(new Error("Cancelled"));
+
+      await expect(opened).rejects.toThrow("Cancelled");
+      expect(ws.listeners.open).toEqual([]);
+      await expect(
+        ws.waitFor("open", { signal: controller.signal }),
+      ).rejects.toThrow("Cancelled");
+      expect(ws.listeners.open).toEqual([]);
+    });
+  });
+
+  describe("message streams", () => {
+    const receive = (ws: any, data: unknown) => {
+      ws.dispatchEvent(new MessageEvent("message", { data }));
+    };
+
+    const readAll = async (stream: ReadableStream) => {
+      const reader = stream.getReader();
+      const chunks: unknown[] = [];
+
+      let result = await reader.read();
+
+      while (!result.done) {
+        chunks.push(result.value);
+        result = await reader.read();
+      }
+
+      return chunks;
+    };
+
+    it("should iterate decoded messages across reconnects until close()", async () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        codec: new JsonCodec(),
+      });
+
+      const messages = ws.messages();
+
+      open(created[0]);
+      receive(created[0], '{"n":1}');
+      created[0].dispatchEvent(new CloseEvent("close", { code: 1006 }));
+      fireReconnect(ws);
+      open(created[1]);
+      receive(created[1], '{"n":2}');
+      ws.close();
+
+      expect(await Array.fromAsync(messages)).toEqual([{ n: 1 }, { n: 2 }]);
+    });
+
+    it("should end on the first disconnection with endOnClose", async () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+      });
+
+      const messages = ws.messages({ endOnClose: true });
+      const following = ws.messages();
+
+      open(created[0]);
+      receive(created[0], "a");
+      created[0].dispatchEvent(new CloseEvent("close", { code: 1006 }));
+
+      expect(await Array.fromAsync(messages)).toEqual(["a"]);
+      expect(await following.next()).toEqual({ value: "a", done: false });
+    });
+
+    it("should bound the buffer of a slow consumer", async () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+      });
+
+      const messages = ws.messages({ bufferSize: 2 });
+
+      open(created[0]);
+      for (const data of ["a", "b", "c"]) receive(created[0], data);
+      ws.close();
+
+      expect(await Array.fromAsync(messages)).toEqual(["b", "c"]);
+    });
+
+    it("should stop feeding an iterator once the loop exits", async () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+      });
+
+      open(created[0]);
+      receive(created[0], "ignored");
+
+      const messages = ws.messages();
+      receive(created[0], "a");
+
+      for await (const message of messages) {
+        expect(message).toBe("a");
+        break;
+      }
+
+      receive(created[0], "b");
+      expect(await messages.next()).toEqual({ value: undefined, done: true });
+    });
+
+    it("should end right away after close()", async () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+      });
+
+      ws.close();
+
+      expect(await ws.messages().next()).toEqual({
+        value: undefined,
+        done: true,
+      });
+    });
+
+    it("should read messages from the readable stream", async () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+      });
+
+      const readable = ws.readable;
+      expect(ws.readable).toBe(readable);
+
+      open(created[0]);
+      receive(created[0], "a");
+      receive(created[0], "b");
+      ws.close();
+
+      expect(await readAll(readable)).toEqual(["a", "b"]);
+
+      ws.connect();
+      expect(ws.readable).not.toBe(readable);
+    });
+
+    it("should queue writes to the writable stream until open", async () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+      });
+
+      const writer = ws.writable.getWriter();
+      await writer.write("a");
+      expect(created[0].sentData).toEqual([]);
+
+      open(created[0]);
+      await writer.write("b");
+      await writer.close();
+
+      expect(created[0].sentData).toEqual(["a", "b"]);
+      expect(ws.readyState).toBe(ReconnectingWebSocket.OPEN);
+    });
+
+    it("should pipe a readable stream into the socket", async () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+      });
+
+      open(created[0]);
+      const writable = ws.writable;
+
+      const source = new ReadableStream({
+        start(controller) {
+          controller.enqueue("a");
+          controller.enqueue("b");
+          controller.close();
+        },
+      });
+
+      await source.pipeTo(writable);
+
+      expect(created[0].sentData).toEqual(["a", "b"]);
+      expect(ws.writable).not.toBe(writable);
+    });
+  });
+
+  describe("abort signals and disposal", () => {
+    it("should not connect until connect() with autoConnect: false", () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        autoConnect: false,
+      });
+
+      ws.send("queued");
+      expect(created.length).toBe(0);
+      expect(ws.state).toBe("idle");
+
+      ws.connect();
+      open(created[0]);
+      expect(created[0].sentData).toEqual(["queued"]);
+    });
+
+    it("should close for good when the signal is aborted", () => {
+      const controller = new AbortController();
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        signal: controller.signal,
+      });
+
+      open(created[0]);
+      controller.abort();
+
+      expect(ws.state).toBe("closed");
+      expect(created[0].readyState).toBe(FakeWebSocket.CLOSED);
+
+      ws.connect();
+      expect(created.length).toBe(1);
+      expect(ws.state).toBe("closed");
+    });
+
+    it("should not connect with an already aborted signal", () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        signal: AbortSignal.abort(),
+      });
+
+      expect(created.length).toBe(0);
+      expect(ws.state).toBe("closed");
+    });
+
+    it("should discard a queued message once its signal is aborted", () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+      });
+
+      const drops: DropEvent[] = [];
+      ws.addEventListener("drop", (event) => drops.push(event));
+
+      const controller = new AbortController();
+      ws.send("a", { signal: controller.signal });
+      ws.send("b");
+      controller.abort();
+
+      open(created[0]);
+
+      expect(created[0].sentData).toEqual(["b"]);
+      expect(drops).toEqual([{ reason: "aborted", messages: ["a"] }]);
+      expect(() => ws.send("c", { signal: controller.signal })).toThrow();
+    });
+
+    it("should stop resending an acknowledged message once aborted", async () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        delivery: "at-least-once",
+        codec: new JsonCodec(),
+      });
+
+      const controller = new AbortController();
+      const delivered = ws.send({ op: "a" }, { signal: controller.signal });
+      controller.abort(new Error("Cancelled"));
+
+      await expect(delivered).rejects.toThrow("Cancelled");
+
+      open(created[0]);
+      expect(created[0].sentData).toEqual([]);
+    });
+
+    it("should reject a request with the abort reason", async () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        codec: new JsonCodec(),
+      });
+
+      const controller = new AbortController();
+      const response = ws.request(
+        { method: "time" },
+        { signal: controller.signal },
+      );
+      controller.abort(new Error("Cancelled"));
+
+      await expect(response).rejects.toThrow("Cancelled");
+
+      open(created[0]);
+      expect(created[0].sentData).toEqual([]);
+      await expect(
+        ws.request({ method: "time" }, { signal: controller.signal }),
+      ).rejects.toThrow("Cancelled");
+    });
+
+    it("should stop waiting for drain once aborted", async () => {
+      const ws = new ReconnectingWebSocket("ws://test", {
+        WebSocketConstructor: FakeWebSocket as any,
+        highWaterMark: 100,
+      });
+      open(created[0]);
+
+      created[0].bufferedAmount = 150;
+      const controller = new AbortController();
+      const sent = ws.sendAsync("big", { signal: controller.signal });
+      controller.abort(new Error("Cancelled"));
+
+      await expect(sent).rejects.toThrow("Cancelled");
+      expect(created[0].sentData).toEqual(["big"]);
+    });
+
+    it("should close when disposed", () => {
+      const controller = new AbortController();
+      let socket!: ReconnectingWebSocket;
+
+      {
+        using ws = new ReconnectingWebSocket("ws://test", {
+          WebSocketConstructor: FakeWebSocket as any,
+          signal: controller.signal,
+          statsInterval: 1000,
+        });
+        socket = ws;
+        open(created[0]);
+      }
+
+      expect(socket.state).toBe("closed");
+      expect(socket.statsInterval).toBeUndefined();
+      expect(intervals.size).toBe(0);
+      expect(timeouts.size).toBe(0);
+    });
+
+    it("should wait for the queue to be saved when disposed asynchronously", async () => {
+      let saved = false;
+      const queueStorage = {
+        load: () => [],
+        save: async () => {
+          await Promise.resolve();
+          saved = true;
+        },
+      };
+
+      {
+        await using ws = new ReconnectingWebSocket("ws://test", {
+          WebSocketConstructor: FakeWebSocket as any,
+          queueStorage,
+        });
+        ws.send("queued");
+      }
+
+      expect(saved).toBe(true);
+    });
+  });
 });
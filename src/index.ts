@@ -1,7 +1,117 @@
-type EventType = "open" | "message" | "close" | "reconnect" | "error";
+import {
+  classifyCloseCode,
+  type CloseCodeRule,
+  type CloseDecision,
+} from "./close-codes.js";
+import { rawCodec, type MessageCodec, type SendData } from "./codecs.js";
+import {
+  ConnectionStateMachine,
+  type ConnectionState,
+  type StateChangeEvent,
+} from "./connection-state.js";
+import { EndpointPool, type EndpointStrategy } from "./endpoints.js";
+import { MessageBuffer, type BufferOverflowPolicy } from "./message-buffer.js";
+import {
+  ExponentialBackoffPolicy,
+  type ReconnectPolicy,
+} from "./reconnect-policy.js";
+import {
+  MessageQueue,
+  type CoalescePosition,
+  type DropReason,
+  type QueuedMessage,
+  type QueueOverflowPolicy,
+  type QueuePushOptions,
+} from "./message-queue.js";
+import { Outbox, type DeliveryMode } from "./outbox.js";
+import {
+  deserializeMessage,
+  serializeMessage,
+  type QueueStorage,
+  type StoredMessage,
+} from "./queue-storage.js";
+import { TokenBucket } from "./rate-limiter.js";
+import {
+  PendingRequests,
+  type InFlightRequestPolicy,
+  type RequestId,
+  type RequestOptions,
+} from "./requests.js";
+import { ConnectionStats, type ConnectionStatsSnapshot } from "./stats.js";
+
+export * from "./close-codes.js";
+export * from "./codecs.js";
+export type { ConnectionState, StateChangeEvent } from "./connection-state.js";
+export type { EndpointState, EndpointStrategy } from "./endpoints.js";
+export type { BufferOverflowPolicy } from "./message-buffer.js";
+export type {
+  CoalescePosition,
+  DropReason,
+  QueueOverflowPolicy,
+} from "./message-queue.js";
+export type { DeliveryMode } from "./outbox.js";
+export {
+  KeyValueQueueStorage,
+  MemoryQueueStorage,
+  type KeyValueStore,
+  type QueueStorage,
+  type StoredMessage,
+} from "./queue-storage.js";
+export * from "./reconnect-policy.js";
+export type {
+  InFlightRequestPolicy,
+  RequestId,
+  RequestOptions,
+} from "./requests.js";
+export type { ConnectionStatsSnapshot, RttStats } from "./stats.js";
+
+type EventType = keyof ReconnectingWebSocketEventMap;
 type Listener = (payload: any) => void;
+type EventHandler<T, Payload> = ((this: T, event: Payload) => any) | null;
 
-interface ReconnectOptions {
+export type ReconnectingWebSocketListener<T, Payload> =
+  | ((this: T, payload: Payload) => any)
+  | { handleEvent(payload: Payload): any };
+
+interface ListenerEntry {
+  listener: Listener | { handleEvent: Listener };
+  once: boolean;
+}
+
+// Native WebSocket event handler properties
+const EVENT_HANDLER_PROPERTIES = {
+  open: "onopen",
+  message: "onmessage",
+  close: "onclose",
+  error: "onerror",
+} as const;
+
+export type UrlProvider = () => string | Promise<string>;
+type Endpoint = string | UrlProvider;
+
+// How often a flush paused by highWaterMark, or a pending drain, checks bufferedAmount again
+const BUFFER_CHECK_INTERVAL = 50;
+
+// Default injectRequestId and injectMessageId, only plain objects can carry an
+// `id` field, strings, arrays and binary data would be spread into garbage
+const injectIdField = (message: unknown, id: number, option: string) => {
+  const prototype =
+    typeof message === "object" && message !== null
+      ? Object.getPrototypeOf(message)
+      : undefined;
+
+  if (prototype !== Object.prototype && prototype !== null) {
+    throw new TypeError(
+      `Only object messages can be tagged with an id, use the ${option} option for others`,
+    );
+  }
+
+  return { ...(message as object), id };
+};
+
+type Protocols = string | string[];
+
+export interface ReconnectOptions<In = any, Out = SendData> {
   retryDelay?: number;
   maxRetryDelay?: number;
   connectionTimeout?: number;
@@ -9,10 +119,182 @@ interface ReconnectOptions {
   WebSocketConstructor?: typeof WebSocket;
   healthCheckInterval?: number;
   watchingInactivityTimeout?: number;
+  reconnectPolicy?: ReconnectPolicy;
+  maxRetries?: number;
+  maxDowntime?: number;
+  closeCodeRules?: CloseCodeRule[];
+  heartbeatInterval?: number;
+  heartbeatMessage?: SendData | (() => SendData);
+  isPong?: (event: MessageEvent) => boolean;
+  maxMissedPongs?: number;
+  swallowPongs?: boolean;
+  statsInterval?: number;
+  endpointStrategy?: EndpointStrategy;
+  returnToPrimaryAfter?: number;
+  protocols?: Protocols | ((attempt: number) => Protocols | undefined);
+  binaryType?: BinaryType;
+  codec?: MessageCodec<In, Out>;
+  requestTimeout?: number;
+  injectRequestId?: (message: Out, id: number) => Out;
+  extractRequestId?: (message: In) => RequestId | undefined;
+  inFlightRequests?: InFlightRequestPolicy;
+  batchSubscriptions?: (messages: Out[]) => Out;
+  maxSubscriptionsPerMessage?: number;
+  delivery?: DeliveryMode;
+  injectMessageId?: (message: Out, id: number) => Out;
+  extractAckId?: (message: In) => RequestId | undefined;
+  extractSequence?: (message: In) => number | undefined;
+  resumeUrl?: (url: string, lastSequence: number) => string;
+  resumeMessage?: (lastSequence: number) => Out;
+  maxQueueSize?: number;
+  maxQueueBytes?: number;
+  queueOverflow?: QueueOverflowPolicy;
+  queueTtl?: number;
+  coalescePosition?: CoalescePosition;
+  queueStorage?: QueueStorage;
+  rateLimit?: number;
+  rateLimitInterval?: number;
+  batchMessages?: (messages: SendData[]) => SendData;
+  maxBatchSize?: number;
+  highWaterMark?: number;
+  lowWaterMark?: number;
+  authenticate?: (ws: WebSocket, context: AuthContext) => Promise<void> | void;
+  authTimeout?: number;
+  // Closes the instance for good once aborted
+  signal?: AbortSignal;
+  autoConnect?: boolean;
+}
+
+export interface AuthContext {
+  // Set after an authentication failure or a "refresh-credentials" close,
+  // so the hook can renew its credentials instead of reusing cached ones
+  refreshCredentials: boolean;
+}
+
+export interface WaitOptions {
+  // Milliseconds before rejecting, 0 waits forever
+  timeout?: number;
+  signal?: AbortSignal;
+}
+
+export interface WaitForOptions<Payload> extends WaitOptions {
+  // Events for which it returns false are skipped
+  filter?: (payload: Payload) => boolean;
+}
+
+export interface MessagesOptions {
+  // Messages kept while the consumer is busy, the overflow policy applies past it
+  bufferSize?: number;
+  overflow?: BufferOverflowPolicy;
+  // End on the first disconnection instead of continuing across reconnects
+  endOnClose?: boolean;
+}
+
+export interface SendOptions {
+  // While disconnected, replaces the queued message sent with the same key
+  coalesceKey?: string;
+  // Discards the message if it is still queued, or stops waiting for its ack
+  signal?: AbortSignal;
+}
+
+// Options without a default value
+type OptionalOption =
+  | "binaryType"
+  | "batchSubscriptions"
+  | "extractSequence"
+  | "resumeUrl"
+  | "resumeMessage"
+  | "queueStorage"
+  | "batchMessages"
+  | "authenticate"
+  | "signal";
+
+export interface Subscription {
+  key: string;
+  unsubscribe(): void;
+}
+
+interface SubscriptionEntry<Out> {
+  subscribeMessage: Out;
+  unsubscribeMessage?: Out;
+}
+
+export interface CloseInfo {
+  code: number;
+  reason: string;
+}
+
+export interface CloseEventPayload extends CloseInfo {
+  decision: CloseDecision;
+}
+
+export interface EndpointChangeEvent {
+  previousIndex: number;
+  index: number;
+  url: Endpoint;
+}
+
+export interface FailedEvent {
+  attempts: number;
+  lastError?: unknown;
+  lastClose?: CloseInfo;
+}
+
+export interface DecodeErrorEvent {
+  error: unknown;
+  // The raw frame the codec failed to decode
+  data: unknown;
 }
 
-export class ReconnectingWebSocket {
-  options: Required<ReconnectOptions & { url: string }>;
+export interface DropEvent {
+  reason: DropReason;
+  messages: SendData[];
+}
+
+export interface GapEvent {
+  expected: number;
+  received: number;
+}
+
+export interface ReconnectingWebSocketEventMap<In = any> {
+  open: Event;
+  message: MessageEvent<In>;
+  close: CloseEventPayload;
+  reconnect: Event;
+  // URL provider failures carry the thrown value as `error`
+  error: Event & { error?: unknown };
+  failed: FailedEvent;
+  stats: ConnectionStatsSnapshot;
+  endpointchange: EndpointChangeEvent;
+  decodeerror: DecodeErrorEvent;
+  gap: GapEvent;
+  drop: DropEvent;
+  drain: Event;
+  statechange: StateChangeEvent;
+}
+
+export class ReconnectingWebSocket<
+  In = any,
+  Out = SendData,
+> extends EventTarget {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSING = 2;
+  static readonly CLOSED = 3;
+
+  readonly CONNECTING = 0;
+  readonly OPEN = 1;
+  readonly CLOSING = 2;
+  readonly CLOSED = 3;
+
+  // binaryType has no default: the WebSocket implementation's own default is kept,
+  // subscriptions are replayed one message each without batchSubscriptions
+  // and sessions are only resumed when the resume options are set
+  options: Required<Omit<ReconnectOptions<In, Out>, OptionalOption>> &
+    Pick<ReconnectOptions<In, Out>, OptionalOption> & {
+      url: Endpoint | Endpoint[];
+    };
+  endpoints: EndpointPool<Endpoint>;
 
   ws?: WebSocket;
   abortController?: AbortController;
@@ -21,10 +303,32 @@ export class ReconnectingWebSocket {
   reconnectTimeout?: ReturnType<typeof setTimeout>;
   healthCheckInterval?: ReturnType<typeof setInterval>;
   inactivityTimeout?: ReturnType<typeof setTimeout>;
+  heartbeatInterval?: ReturnType<typeof setInterval>;
+  statsInterval?: ReturnType<typeof setInterval>;
+  failbackTimeout?: ReturnType<typeof setTimeout>;
+  downtimeTimeout?: ReturnType<typeof setTimeout>;
+  flushTimeout?: ReturnType<typeof setTimeout>;
+  drainCheckInterval?: ReturnType<typeof setInterval>;
+  authTimeout?: ReturnType<typeof setTimeout>;
 
   retryCount = 0;
   forcedClose = false;
   wasConnected = false;
+  missedPongs = 0;
+  lastPingAt?: number;
+
+  private connectionStats = new ConnectionStats();
+  private stateMachine = new ConnectionStateMachine();
+  private resolvedUrl?: string;
+
+  // Reconnect context handed to the reconnect policy, reset on open
+  lastClose?: CloseInfo;
+  lastError?: unknown;
+  disconnectedAt?: number;
+  lastRetryDelay?: number;
+  refreshCredentials = false;
+  // Highest sequence number seen, used to resume after reconnecting
+  lastSequence?: number;
 
   // Store event handlers so we can remove them when cleaning up
   private openFn?: (event: Event) => void;
@@ -32,19 +336,87 @@ export class ReconnectingWebSocket {
   private closeFn?: (event: CloseEvent) => void;
   private errorFn?: (event: Event) => void;
   private abortHandler?: () => void;
+  private signalHandler?: () => void;
+
+  // Incremented on every connect() and close() to discard stale URL resolutions
+  private connectId = 0;
 
-  listeners: Record<EventType, Listener[]> = {
+  onopen: EventHandler<this, Event> = null;
+  onmessage: EventHandler<this, MessageEvent<In>> = null;
+  onclose: EventHandler<this, CloseEventPayload> = null;
+  onerror: EventHandler<this, ReconnectingWebSocketEventMap["error"]> = null;
+
+  listeners: Record<EventType, ListenerEntry[]> = {
     open: [],
     message: [],
     close: [],
     reconnect: [],
     error: [],
+    failed: [],
+    stats: [],
+    endpointchange: [],
+    decodeerror: [],
+    gap: [],
+    drop: [],
+    drain: [],
+    statechange: [],
   };
 
+  // Requests waiting for a response, keyed by correlation id
+  private requests = new PendingRequests<In>();
+  // Messages waiting for an ack in "at-least-once" delivery
+  private outbox = new Outbox();
+  // Shared by requests and acknowledged messages so ids never collide
+  private lastMessageId = 0;
+
+  // Active subscriptions, replayed on every open
+  private subscriptions = new Map<string, SubscriptionEntry<Out>>();
+
   // Queue for messages sent when socket is not open
-  private messageQueue: Parameters<WebSocket["send"]>[] = [];
+  private messageQueue: MessageQueue;
+  // Queue changes are only saved once the stored queue has been loaded
+  private queueRestored = false;
+  // Latest asynchronous save, awaited when disposing asynchronously
+  private pendingSave?: Promise<void>;
+  // Set while restoring from the constructor, before any listener can be added
+  private deferStorageErrors = false;
+  private rateLimiter?: TokenBucket;
+  // Subscription, resume and acknowledged messages held back by the rate limit,
+  // sent ahead of the queue and regenerated on every open instead of persisted
+  private controlMessages: SendData[] = [];
+  // Set once buffered data went above highWaterMark, until it is back under lowWaterMark
+  private draining = false;
+  private drainWaiters: {
+    resolve: () => void;
+    reject: (error: Error) => void;
+  }[] = [];
+
+  // Buffers of the messages() iterators, mapped to their endOnClose option
+  private messageBuffers = new Map<MessageBuffer<In>, boolean>();
+  private readableMessages?: MessageBuffer<In>;
+  private readableStream?: ReadableStream<In>;
+  private writableStream?: WritableStream<Out>;
+
+  get state(): ConnectionState {
+    return this.stateMachine.state;
+  }
+
+  // Between the socket opening and the authenticate hook resolving
+  get authenticating() {
+    return this.state === "authenticating";
+  }
+
+  // Terminal state: no more reconnect attempts until connect() is called
+  get failed() {
+    return this.state === "failed";
+  }
 
+  // Still CONNECTING while authenticating
   get readyState() {
+    if (this.authenticating) {
+      return WebSocket.CONNECTING;
+    }
+
     return this.ws?.readyState ?? WebSocket.CLOSED;
   }
 
@@ -52,7 +424,56 @@ export class ReconnectingWebSocket {
     return this.ws?.bufferedAmount ?? 0;
   }
 
-  constructor(url: string, options: ReconnectOptions = {}) {
+  // Subprotocol selected by the server for the current connection
+  get protocol() {
+    return this.ws?.protocol ?? "";
+  }
+
+  // Extensions selected by the server for the current connection
+  get extensions() {
+    return this.ws?.extensions ?? "";
+  }
+
+  get binaryType(): BinaryType {
+    return this.ws?.binaryType ?? this.options.binaryType ?? "blob";
+  }
+
+  // Applied to the current socket and every socket created afterwards
+  set binaryType(binaryType: BinaryType) {
+    this.options.binaryType = binaryType;
+
+    if (this.ws) {
+      this.ws.binaryType = binaryType;
+    }
+  }
+
+  // URL of the current connection attempt, once resolved
+  get currentUrl() {
+    return this.resolvedUrl;
+  }
+
+  // Mirrors WebSocket#url, empty until the first URL is resolved
+  get url() {
+    return this.resolvedUrl ?? "";
+  }
+
+  get stats() {
+    return this.connectionStats.snapshot();
+  }
+
+  // Protocols may be passed instead of options, like the native WebSocket constructor
+  constructor(
+    url: Endpoint | Endpoint[],
+    optionsOrProtocols: ReconnectOptions<In, Out> | Protocols = {},
+  ) {
+    super();
+
+    const options: ReconnectOptions<In, Out> =
+      typeof optionsOrProtocols === "string" ||
+      Array.isArray(optionsOrProtocols)
+        ? { protocols: optionsOrProtocols }
+        : optionsOrProtocols;
+
     this.options = {
       url,
       retryDelay: options.retryDelay ?? 1000,
@@ -62,16 +483,174 @@ export class ReconnectingWebSocket {
       WebSocketConstructor: options.WebSocketConstructor ?? WebSocket,
       healthCheckInterval: options.healthCheckInterval ?? 30_000,
       watchingInactivityTimeout: options.watchingInactivityTimeout ?? 0, // disabled by default, set to 300_000 for 5 minutes
+      reconnectPolicy:
+        options.reconnectPolicy ??
+        new ExponentialBackoffPolicy({
+          retryDelay: options.retryDelay,
+          maxRetryDelay: options.maxRetryDelay,
+          backoffFactor: options.backoffFactor,
+        }),
+      maxRetries: options.maxRetries ?? Infinity,
+      maxDowntime: options.maxDowntime ?? Infinity,
+      closeCodeRules: options.closeCodeRules ?? [],
+      heartbeatInterval: options.heartbeatInterval ?? 0, // disabled by default
+      heartbeatMessage: options.heartbeatMessage ?? "ping",
+      isPong: options.isPong ?? ((event) => event.data === "pong"),
+      maxMissedPongs: options.maxMissedPongs ?? 2,
+      swallowPongs: options.swallowPongs ?? false,
+      statsInterval: options.statsInterval ?? 0, // disabled by default
+      endpointStrategy: options.endpointStrategy ?? "round-robin",
+      returnToPrimaryAfter: options.returnToPrimaryAfter ?? 300_000,
+      protocols: options.protocols ?? [],
+      binaryType: options.binaryType,
+      codec: options.codec ?? (rawCodec as MessageCodec<In, Out>),
+      requestTimeout: options.requestTimeout ?? 30_000,
+      injectRequestId:
+        options.injectRequestId ??
+        ((message, id) => injectIdField(message, id, "injectRequestId") as Out),
+      extractRequestId:
+        options.extractRequestId ?? ((message) => (message as any)?.id),
+      inFlightRequests: options.inFlightRequests ?? "reject",
+      batchSubscriptions: options.batchSubscriptions,
+      maxSubscriptionsPerMessage:
+        options.maxSubscriptionsPerMessage ?? Infinity,
+      delivery: options.delivery ?? "at-most-once",
+      injectMessageId:
+        options.injectMessageId ??
+        ((message, id) => injectIdField(message, id, "injectMessageId") as Out),
+      extractAckId:
+        options.extractAckId ?? ((message) => (message as any)?.ack),
+      extractSequence: options.extractSequence,
+      resumeUrl: options.resumeUrl,
+      resumeMessage: options.resumeMessage,
+      maxQueueSize: options.maxQueueSize ?? Infinity,
+      maxQueueBytes: options.maxQueueBytes ?? Infinity,
+      queueOverflow: options.queueOverflow ?? "drop-oldest",
+      queueTtl: options.queueTtl ?? 0, // disabled by default
+      coalescePosition: options.coalescePosition ?? "in-place",
+      queueStorage: options.queueStorage,
+      rateLimit: options.rateLimit ?? Infinity,
+      rateLimitInterval: options.rateLimitInterval ?? 1000,
+      batchMessages: options.batchMessages,
+      maxBatchSize: options.maxBatchSize ?? Infinity,
+      highWaterMark: options.highWaterMark ?? Infinity,
+      lowWaterMark: options.lowWaterMark ?? 0,
+      authenticate: options.authenticate,
+      authTimeout: options.authTimeout ?? 10_000,
+      signal: options.signal,
+      autoConnect: options.autoConnect ?? true,
     };
 
-    this.connect();
+    this.messageQueue = new MessageQueue({
+      maxSize: this.options.maxQueueSize,
+      maxBytes: this.options.maxQueueBytes,
+      overflow: this.options.queueOverflow,
+      ttl: this.options.queueTtl,
+      coalescePosition: this.options.coalescePosition,
+    });
+
+    this.restoreQueue();
+
+    if (this.options.rateLimit !== Infinity) {
+      this.rateLimiter = new TokenBucket(
+        this.options.rateLimit,
+        this.options.rateLimitInterval,
+      );
+    }
+
+    this.endpoints = new EndpointPool(
+      Array.isArray(url) ? url : [url],
+      this.options.endpointStrategy,
+      this.options.returnToPrimaryAfter,
+    );
+
+    const { signal } = this.options;
+
+    if (signal) {
+      this.signalHandler = () => this.close();
+      signal.addEventListener("abort", this.signalHandler, { once: true });
+    }
+
+    if (signal?.aborted) {
+      this.close();
+    } else if (this.options.autoConnect) {
+      this.connect();
+    }
   }
 
   connect() {
+    // The signal option closed this instance for good
+    if (this.options.signal?.aborted) {
+      return;
+    }
+
     // Reset forcedClose flag to allow reconnection for new connection attempts
     // This ensures that manual reconnections (via connect()) can auto-reconnect
     this.forcedClose = false;
 
+    // Restarting after giving up begins a fresh retry cycle
+    if (this.failed) {
+      this.retryCount = 0;
+      this.disconnectedAt = undefined;
+      this.lastRetryDelay = undefined;
+    }
+
+    this.setState("connecting", "Connect");
+    this.releaseSocket();
+
+    // Clear any pending timers (this also removes abort listener from old controller)
+    this.clearTimers();
+    this.startStatsTimer();
+
+    this.connectId += 1;
+    const connectId = this.connectId;
+
+    const { url } = this.endpoints.current;
+
+    if (typeof url === "string") {
+      this.openSocket(url);
+      return;
+    }
+
+    // Resolve the URL before each attempt, ignoring results from attempts
+    // that were superseded by another connect() or close()
+    const onUrl = (resolved: string) => {
+      if (connectId !== this.connectId) return;
+
+      this.stopConnectTimeout();
+      this.openSocket(resolved);
+    };
+
+    const onError = (error: unknown) => {
+      if (connectId === this.connectId) this.handleConnectError(error);
+    };
+
+    try {
+      const resolved = url();
+
+      if (typeof resolved === "string") {
+        onUrl(resolved);
+      } else {
+        // The connection timeout also covers a provider that never settles
+        const { connectionTimeout } = this.options;
+
+        this.connectTimeout = setTimeout(() => {
+          // A url resolved after the timeout is ignored
+          this.connectId += 1;
+          this.handleConnectError(
+            new Error(`URL provider timed out after ${connectionTimeout}ms`),
+          );
+        }, connectionTimeout);
+
+        resolved.then(onUrl, onError);
+      }
+    } catch (error) {
+      onError(error);
+    }
+  }
+
+  // Detaches the old socket, closing it if still connecting or open
+  private releaseSocket() {
     // Remove event listeners from old socket
     if (this.openFn) this.ws?.removeEventListener("open", this.openFn);
     if (this.msgFn) this.ws?.removeEventListener("message", this.msgFn);
@@ -84,10 +663,18 @@ export class ReconnectingWebSocket {
       this.ws?.readyState === WebSocket.OPEN
     ) {
       this.ws?.close();
+      this.connectionStats.recordClose();
+      this.handleInFlightRequests();
     }
+  }
 
-    // Clear any pending timers (this also removes abort listener from old controller)
-    this.clearTimers();
+  private openSocket(url: string) {
+    const { resumeUrl } = this.options;
+
+    // Resume from the last sequence seen on a previous connection
+    if (resumeUrl && this.lastSequence !== undefined) {
+      url = resumeUrl(url, this.lastSequence);
+    }
 
     // Create new abort controller
     this.abortController = new AbortController();
@@ -99,8 +686,22 @@ export class ReconnectingWebSocket {
 
     this.abortController.signal.addEventListener("abort", this.abortHandler);
 
+    const { protocols: protocolsOption, binaryType } = this.options;
+    const protocols =
+      typeof protocolsOption === "function"
+        ? protocolsOption(this.retryCount)
+        : protocolsOption;
+
     // Create new socket
-    this.ws = new this.options.WebSocketConstructor(this.options.url);
+    this.resolvedUrl = url;
+    this.ws =
+      protocols === undefined || protocols.length === 0
+        ? new this.options.WebSocketConstructor(url)
+        : new this.options.WebSocketConstructor(url, protocols);
+
+    if (binaryType) {
+      this.ws.binaryType = binaryType;
+    }
 
     this.connectTimeout = setTimeout(() => {
       this.abortController?.abort();
@@ -113,27 +714,11 @@ export class ReconnectingWebSocket {
     this.openFn = (event: Event) => {
       // Only process if event is from the current socket
       if (event.target === currentWs && this.ws === currentWs) {
-        const isReconnect = this.wasConnected;
-
-        this.clearTimers();
-        this.retryCount = 0;
-        this.wasConnected = true;
-        this.startHealthCheck();
-        this.startInactivityTimer();
-
-        this.runWithFinalizer(
-          () => {
-            this.emit("open", event);
-
-            if (isReconnect) {
-              this.emit("reconnect", event);
-            }
-          },
-          () => {
-            // Flush queued messages even if a listener throws during open/reconnect.
-            this.flushMessageQueue();
-          },
-        );
+        if (this.options.authenticate) {
+          this.authenticateSocket(currentWs, event);
+        } else {
+          this.handleReady(event);
+        }
       }
     };
 
@@ -141,25 +726,80 @@ export class ReconnectingWebSocket {
       // Only process if event is from the current socket
       if (event.target === currentWs && this.ws === currentWs) {
         this.resetInactivityTimer();
-        this.emit("message", event);
+        this.connectionStats.recordReceived(event.data);
+
+        if (this.options.heartbeatInterval > 0 && this.options.isPong(event)) {
+          this.missedPongs = 0;
+
+          if (this.lastPingAt !== undefined) {
+            this.connectionStats.recordRtt(Date.now() - this.lastPingAt);
+            this.lastPingAt = undefined;
+          }
+
+          if (this.options.swallowPongs) return;
+        }
+
+        let message: MessageEvent<In>;
+
+        // A malformed frame is reported without reaching message listeners
+        try {
+          message = this.decodeMessage(event);
+        } catch (error) {
+          this.emit("decodeerror", { error, data: event.data });
+          return;
+        }
+
+        this.trackSequence(message.data);
+
+        // Responses to request() resolve their promise instead of being emitted
+        const id = this.options.extractRequestId(message.data);
+        if (id !== undefined && this.requests.resolve(id, message.data)) {
+          return;
+        }
+
+        if (this.options.delivery === "at-least-once") {
+          const ackId = this.options.extractAckId(message.data);
+          if (ackId !== undefined && this.outbox.ack(ackId)) return;
+        }
+
+        for (const buffer of this.messageBuffers.keys()) {
+          buffer.push(message.data);
+        }
+
+        this.emit("message", message);
       }
     };
 
     this.closeFn = (event: CloseEvent) => {
       // Only process if event is from the current socket
       if (event.target === currentWs && this.ws === currentWs) {
-        const shouldReconnect = !this.forcedClose;
+        const decision = classifyCloseCode(
+          event.code,
+          this.options.closeCodeRules,
+        );
+
+        const close: CloseInfo = { code: event.code, reason: event.reason };
+        const reason = event.reason || `Closed with code ${event.code}`;
+
+        this.lastClose = close;
+        this.connectionStats.recordClose();
+        this.handleInFlightRequests();
 
-        this.stopHealthCheck();
-        this.stopInactivityTimer();
+        // Close listeners already see the connection as down
+        this.setState(
+          decision.action === "do-not-retry" ? "failed" : "reconnect-wait",
+          reason,
+        );
 
         this.runWithFinalizer(
           () => {
-            this.emit("close", { code: event.code, reason: event.reason });
+            const payload: CloseEventPayload = { ...close, decision };
+            this.emit("close", payload);
           },
           () => {
-            if (shouldReconnect) {
-              this.scheduleReconnect();
+            // Close listeners may have called close()
+            if (!this.forcedClose) {
+              this.handleCloseDecision(decision, reason);
             }
           },
         );
@@ -169,6 +809,7 @@ export class ReconnectingWebSocket {
     this.errorFn = (event: Event) => {
       // Only process if event is from the current socket
       if (event.target === currentWs && this.ws === currentWs) {
+        this.lastError = event;
         this.emit("error", event);
       }
     };
@@ -180,12 +821,201 @@ export class ReconnectingWebSocket {
     currentWs.addEventListener("error", this.errorFn);
   }
 
-  emit(event: EventType, payload: any) {
-    for (const listener of this.listeners[event]) {
-      listener(payload);
+  // The connection is usable: reset the retry state and release the queue
+  private handleReady(event: Event) {
+    const isReconnect = this.wasConnected;
+
+    this.retryCount = 0;
+    this.lastClose = undefined;
+    this.lastError = undefined;
+    this.disconnectedAt = undefined;
+    this.lastRetryDelay = undefined;
+    this.wasConnected = true;
+    this.controlMessages = [];
+    this.stopDowntimeTimer();
+    this.setState(
+      "open",
+      this.authenticating ? "Authenticated" : "Socket opened",
+    );
+    this.endpoints.recordSuccess();
+    this.connectionStats.recordOpen(isReconnect);
+
+    // The resume handshake goes out before anything else
+    const { resumeMessage } = this.options;
+    if (resumeMessage && this.lastSequence !== undefined) {
+      this.sendControl(
+        this.options.codec.encode(resumeMessage(this.lastSequence)),
+      );
+    }
+
+    this.runWithFinalizer(
+      () => {
+        this.emit("open", event);
+
+        if (isReconnect) {
+          this.emit("reconnect", event);
+        }
+      },
+      () => {
+        // Flush queued messages even if a listener throws during open/reconnect.
+        // Subscriptions go first so queued messages can rely on them.
+        this.replaySubscriptions();
+        this.resendUnacked();
+        this.flushMessageQueue();
+      },
+    );
+  }
+
+  // Messages keep being queued until the hook resolves, a failure reconnects with backoff
+  private authenticateSocket(ws: WebSocket, event: Event) {
+    const { authenticate, authTimeout } = this.options;
+    this.setState("authenticating", "Socket opened");
+
+    // Ignore results once the socket was replaced, closed or timed out
+    const isCurrent = () => this.authenticating && this.ws === ws;
+
+    const onSuccess = () => {
+      if (!isCurrent()) return;
+
+      this.refreshCredentials = false;
+      this.handleReady(event);
+    };
+
+    const onFailure = (error: unknown) => {
+      if (!isCurrent()) return;
+
+      this.stopAuthentication();
+      this.refreshCredentials = true;
+      this.lastError = error;
+
+      this.runWithFinalizer(
+        () => this.emit("error", Object.assign(new Event("error"), { error })),
+        () => this.teardown(4002, "Authentication failed"),
+      );
+    };
+
+    if (authTimeout > 0) {
+      this.authTimeout = setTimeout(() => {
+        onFailure(new Error(`Authentication timed out after ${authTimeout}ms`));
+      }, authTimeout);
+    }
+
+    try {
+      Promise.resolve(
+        authenticate!(ws, { refreshCredentials: this.refreshCredentials }),
+      ).then(onSuccess, onFailure);
+    } catch (error) {
+      onFailure(error);
+    }
+  }
+
+  stopAuthentication() {
+    if (this.authTimeout) {
+      clearTimeout(this.authTimeout);
+      this.authTimeout = undefined;
+    }
+  }
+
+  // Without a codec, listeners receive the socket's own MessageEvent
+  private decodeMessage(event: MessageEvent): MessageEvent<In> {
+    const { codec } = this.options;
+
+    if (codec === rawCodec) {
+      return event;
+    }
+
+    return new MessageEvent("message", {
+      data: codec.decode(event.data),
+      origin: event.origin,
+      lastEventId: event.lastEventId,
+    });
+  }
+
+  // URL provider failures go through the same error and backoff path as socket failures
+  private handleConnectError(error: unknown) {
+    this.lastError = error;
+
+    this.runWithFinalizer(
+      () => {
+        this.emit("error", Object.assign(new Event("error"), { error }));
+      },
+      () => {
+        if (!this.forcedClose) {
+          this.scheduleReconnect(undefined, "URL provider failed");
+        }
+      },
+    );
+  }
+
+  // Timers follow the state: connection timers only run while connected,
+  // the connect and reconnect timeouts only while waiting for them
+  private setState(state: ConnectionState, reason: string) {
+    const change = this.stateMachine.transition(state, reason);
+
+    if (!change) {
+      return;
+    }
+
+    const { previous } = change;
+
+    if (previous === "connecting") {
+      this.stopConnectTimeout();
+    }
+
+    if (previous === "reconnect-wait") {
+      this.stopReconnectTimer();
+    }
+
+    if (previous === "authenticating" || previous === "open") {
+      this.stopAuthentication();
+      this.stopHealthCheck();
+      this.stopInactivityTimer();
+      this.stopHeartbeat();
+      this.stopFailbackTimer();
+      this.stopFlushTimer();
+    }
+
+    if (state === "open") {
+      this.startHealthCheck();
+      this.startInactivityTimer();
+      this.startHeartbeat();
+      this.startFailbackTimer();
+    }
+
+    this.endMessageBuffers(previous, state);
+    this.emit("statechange", change);
+  }
+
+  emit<K extends EventType>(
+    event: K,
+    payload: ReconnectingWebSocketEventMap<In>[K],
+  ) {
+    // Iterate over a copy so listeners can add or remove listeners safely
+    for (const entry of [...this.listeners[event]]) {
+      // Skip listeners removed by a previous listener, like EventTarget does
+      if (!this.listeners[event].includes(entry)) continue;
+      if (entry.once) this.removeEventListener(event, entry.listener);
+
+      if (typeof entry.listener === "function") {
+        entry.listener.call(this, payload);
+      } else {
+        entry.listener.handleEvent(payload);
+      }
+    }
+
+    if (event in EVENT_HANDLER_PROPERTIES) {
+      const property =
+        EVENT_HANDLER_PROPERTIES[
+          event as keyof typeof EVENT_HANDLER_PROPERTIES
+        ];
+      (this[property] as EventHandler<this, unknown>)?.call(this, payload);
     }
   }
 
+  private isEventType(type: string): type is EventType {
+    return Object.hasOwn(this.listeners, type);
+  }
+
   private runWithFinalizer(action: () => void, finalizer?: () => void) {
     let didThrow = false;
     let thrown: unknown;
@@ -213,22 +1043,131 @@ export class ReconnectingWebSocket {
     }
   }
 
-  scheduleReconnect() {
+  private handleCloseDecision(decision: CloseDecision, reason: string) {
+    switch (decision.action) {
+      case "do-not-retry":
+        this.fail(reason);
+        break;
+      case "retry-after-delay":
+        this.scheduleReconnect(decision.delay, reason);
+        break;
+      case "refresh-credentials":
+        // The next authenticate call is asked for fresh credentials
+        this.refreshCredentials = true;
+        this.scheduleReconnect(undefined, reason);
+        break;
+      default:
+        this.scheduleReconnect(undefined, reason);
+    }
+  }
+
+  // A fixed delay bypasses the reconnect policy but still counts as an attempt
+  scheduleReconnect(delayOverride?: number, reason = "Reconnect scheduled") {
     // Clear any existing reconnect timeout first to prevent multiple reconnects
-    if (this.reconnectTimeout) {
-      clearTimeout(this.reconnectTimeout);
-      this.reconnectTimeout = undefined;
+    this.stopReconnectTimer();
+
+    this.disconnectedAt ??= Date.now();
+
+    const { maxRetries, maxDowntime, reconnectPolicy } = this.options;
+    const downtime = Date.now() - this.disconnectedAt;
+
+    if (this.retryCount >= maxRetries) {
+      this.fail("Maximum retries reached");
+      return;
+    }
+
+    if (downtime >= maxDowntime) {
+      this.fail("Maximum downtime reached");
+      return;
     }
 
-    const { retryDelay, backoffFactor, maxRetryDelay } = this.options;
+    const previousIndex = this.endpoints.index;
+    this.endpoints.recordFailure();
+
+    const delay =
+      delayOverride ??
+      reconnectPolicy.nextDelay({
+        // Backoff is tracked per endpoint, failing over to a healthy one retries sooner
+        attempt: Math.min(this.retryCount, this.endpoints.current.failures),
+        closeCode: this.lastClose?.code,
+        downtime,
+        previousDelay: this.lastRetryDelay,
+      });
+
+    // The policy gave up
+    if (delay === null) {
+      this.fail("Reconnect policy gave up");
+      return;
+    }
 
-    const delay = Math.min(
-      retryDelay * Math.pow(backoffFactor, this.retryCount),
-      maxRetryDelay,
+    this.retryCount += 1;
+    this.lastRetryDelay = delay;
+    // Never wait past the maxDowntime deadline
+    this.reconnectTimeout = setTimeout(
+      () => {
+        this.setState("connecting", "Reconnect");
+        this.connect();
+      },
+      Math.min(delay, maxDowntime - downtime),
     );
+    this.setState("reconnect-wait", reason);
+    this.startDowntimeTimer();
 
-    this.retryCount += 1;
-    this.reconnectTimeout = setTimeout(() => this.connect(), delay);
+    if (this.endpoints.index !== previousIndex) {
+      this.emitEndpointChange(previousIndex);
+    }
+  }
+
+  private emitEndpointChange(previousIndex: number) {
+    const payload: EndpointChangeEvent = {
+      previousIndex,
+      index: this.endpoints.index,
+      url: this.endpoints.current.url,
+    };
+
+    this.emit("endpointchange", payload);
+  }
+
+  // Gives up at the maxDowntime deadline, even in the middle of a connection attempt
+  startDowntimeTimer() {
+    const { maxDowntime } = this.options;
+
+    if (this.downtimeTimeout || maxDowntime === Infinity) {
+      return;
+    }
+
+    const remaining = maxDowntime - (Date.now() - this.disconnectedAt!);
+
+    this.downtimeTimeout = setTimeout(() => {
+      this.downtimeTimeout = undefined;
+      // Discard a URL still being resolved
+      this.connectId += 1;
+      this.releaseSocket();
+      this.fail("Maximum downtime reached");
+    }, remaining);
+  }
+
+  stopDowntimeTimer() {
+    if (this.downtimeTimeout) {
+      clearTimeout(this.downtimeTimeout);
+      this.downtimeTimeout = undefined;
+    }
+  }
+
+  private fail(reason: string) {
+    this.clearTimers();
+    this.stopDowntimeTimer();
+    this.stopStatsTimer();
+    this.rejectDrainWaiters(new Error(reason));
+    this.setState("failed", reason);
+
+    const payload: FailedEvent = {
+      attempts: this.retryCount,
+      lastError: this.lastError,
+      lastClose: this.lastClose,
+    };
+
+    this.emit("failed", payload);
   }
 
   startHealthCheck() {
@@ -251,8 +1190,9 @@ export class ReconnectingWebSocket {
           // Don't emit close event since we didn't receive one - this is a silent failure
           this.ws = undefined;
         }
-        this.stopHealthCheck();
-        this.scheduleReconnect();
+        this.connectionStats.recordClose();
+        this.handleInFlightRequests();
+        this.scheduleReconnect(undefined, "Health check failed");
       }
     }, this.options.healthCheckInterval);
   }
@@ -277,66 +1217,162 @@ export class ReconnectingWebSocket {
         return;
       }
 
-      const shouldReconnect = !this.forcedClose;
-
-      // Proactively trigger reconnection due to inactivity
-      // Don't rely on the close event as it may never fire on a stalled connection
-      if (this.ws) {
-        // Stop health check to prevent it from also triggering reconnection
-        this.stopHealthCheck();
+      // Special code indicating inactivity timeout
+      this.teardown(4000, "Inactivity timeout");
+    }, this.options.watchingInactivityTimeout);
+  }
 
-        // Remove event listeners to prevent any late events from interfering
-        if (this.openFn) this.ws.removeEventListener("open", this.openFn);
-        if (this.msgFn) this.ws.removeEventListener("message", this.msgFn);
-        if (this.closeFn) this.ws.removeEventListener("close", this.closeFn);
-        if (this.errorFn) this.ws.removeEventListener("error", this.errorFn);
+  // Proactively close a stalled connection and reconnect
+  // Don't rely on the close event as it may never fire on a stalled connection
+  private teardown(code: number, reason: string) {
+    if (!this.ws) {
+      return;
+    }
 
-        // Try to close the socket (may hang on stalled connections, but we don't wait)
-        this.ws.close();
+    // Remove event listeners to prevent any late events from interfering
+    if (this.openFn) this.ws.removeEventListener("open", this.openFn);
+    if (this.msgFn) this.ws.removeEventListener("message", this.msgFn);
+    if (this.closeFn) this.ws.removeEventListener("close", this.closeFn);
+    if (this.errorFn) this.ws.removeEventListener("error", this.errorFn);
+
+    // Try to close the socket (may hang on stalled connections, but we don't wait)
+    this.ws.close();
+
+    // Clear the socket reference
+    this.ws = undefined;
+
+    const close: CloseInfo = { code, reason };
+    this.lastClose = close;
+    this.connectionStats.recordClose();
+    this.handleInFlightRequests();
+    this.setState("reconnect-wait", reason);
+
+    this.runWithFinalizer(
+      () => {
+        // This is a local teardown, so it is always retried regardless of close code rules.
+        const payload: CloseEventPayload = {
+          ...close,
+          decision: { action: "retry" },
+        };
+        this.emit("close", payload);
+      },
+      () => {
+        // Close listeners may have called close()
+        if (!this.forcedClose) {
+          // Schedule reconnection directly without waiting for close event.
+          // Leaving the open state above stopped the timers so they can't also trigger it.
+          this.scheduleReconnect(undefined, reason);
+        }
+      },
+    );
+  }
 
-        // Clear the socket reference
-        this.ws = undefined;
+  stopInactivityTimer() {
+    if (this.inactivityTimeout) {
+      clearTimeout(this.inactivityTimeout);
+      this.inactivityTimeout = undefined;
+    }
+  }
 
-        this.runWithFinalizer(
-          () => {
-            // Emit close event to listeners with a special code indicating inactivity timeout.
-            this.emit("close", { code: 4000, reason: "Inactivity timeout" });
-          },
-          () => {
-            if (shouldReconnect) {
-              // Schedule reconnection directly without waiting for close event.
-              this.scheduleReconnect();
-            }
-          },
-        );
+  resetInactivityTimer() {
+    if (this.options.watchingInactivityTimeout > 0) {
+      this.startInactivityTimer();
+    }
+  }
+
+  startHeartbeat() {
+    this.stopHeartbeat();
+    this.missedPongs = 0;
+    this.lastPingAt = undefined;
+
+    if (this.options.heartbeatInterval <= 0) {
+      return;
+    }
+
+    this.heartbeatInterval = setInterval(() => {
+      if (this.forcedClose || this.ws?.readyState !== WebSocket.OPEN) {
+        return;
       }
-    }, this.options.watchingInactivityTimeout);
+
+      if (this.missedPongs >= this.options.maxMissedPongs) {
+        // Special code indicating missed pongs, the connection is half-open
+        this.teardown(4003, "Heartbeat timeout");
+        return;
+      }
+
+      const { heartbeatMessage } = this.options;
+
+      this.missedPongs += 1;
+      this.lastPingAt = Date.now();
+      this.sendNow(
+        typeof heartbeatMessage === "function"
+          ? heartbeatMessage()
+          : heartbeatMessage,
+      );
+    }, this.options.heartbeatInterval);
   }
 
-  stopInactivityTimer() {
-    if (this.inactivityTimeout) {
-      clearTimeout(this.inactivityTimeout);
-      this.inactivityTimeout = undefined;
+  startStatsTimer() {
+    if (this.statsInterval || this.options.statsInterval <= 0) {
+      return;
     }
+
+    this.statsInterval = setInterval(() => {
+      this.emit("stats", this.stats);
+    }, this.options.statsInterval);
   }
 
-  resetInactivityTimer() {
-    if (this.options.watchingInactivityTimeout > 0) {
-      this.startInactivityTimer();
+  stopStatsTimer() {
+    if (this.statsInterval) {
+      clearInterval(this.statsInterval);
+      this.statsInterval = undefined;
     }
   }
 
-  clearTimers() {
+  // Reconnect to the primary endpoint after `returnToPrimaryAfter` on a fallback
+  startFailbackTimer() {
+    this.stopFailbackTimer();
+
+    const delay = this.endpoints.timeUntilPrimary();
+
+    if (delay === Infinity) {
+      return;
+    }
+
+    this.failbackTimeout = setTimeout(() => {
+      const previousIndex = this.endpoints.index;
+
+      this.endpoints.returnToPrimary();
+      this.runWithFinalizer(
+        () => this.emitEndpointChange(previousIndex),
+        () => {
+          this.setState("connecting", "Failback to primary endpoint");
+          this.connect();
+        },
+      );
+    }, delay);
+  }
+
+  stopFailbackTimer() {
+    if (this.failbackTimeout) {
+      clearTimeout(this.failbackTimeout);
+      this.failbackTimeout = undefined;
+    }
+  }
+
+  stopHeartbeat() {
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval);
+      this.heartbeatInterval = undefined;
+    }
+  }
+
+  stopConnectTimeout() {
     if (this.connectTimeout) {
       clearTimeout(this.connectTimeout);
       this.connectTimeout = undefined;
     }
 
-    if (this.reconnectTimeout) {
-      clearTimeout(this.reconnectTimeout);
-      this.reconnectTimeout = undefined;
-    }
-
     if (this.abortController && this.abortHandler) {
       this.abortController.signal.removeEventListener(
         "abort",
@@ -347,45 +1383,881 @@ export class ReconnectingWebSocket {
     } else if (this.abortController) {
       this.abortController = undefined;
     }
+  }
+
+  stopReconnectTimer() {
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = undefined;
+    }
+  }
 
+  clearTimers() {
+    this.stopConnectTimeout();
+    this.stopReconnectTimer();
     this.stopHealthCheck();
     this.stopInactivityTimer();
+    this.stopHeartbeat();
+    this.stopFailbackTimer();
+    this.stopFlushTimer();
+    this.stopAuthentication();
   }
 
-  addEventListener(event: EventType, listener: Listener) {
-    this.listeners[event].push(listener);
+  // Events other than the ones emitted by this class fall back to EventTarget
+  addEventListener<K extends EventType>(
+    event: K,
+    listener: ReconnectingWebSocketListener<
+      this,
+      ReconnectingWebSocketEventMap<In>[K]
+    > | null,
+    options?: boolean | AddEventListenerOptions,
+  ): void;
+  addEventListener(
+    event: string,
+    listener: EventListenerOrEventListenerObject | null,
+    options?: boolean | AddEventListenerOptions,
+  ): void;
+  addEventListener(
+    event: string,
+    listener: Listener | EventListenerObject | null,
+    options?: boolean | AddEventListenerOptions,
+  ) {
+    if (!this.isEventType(event)) {
+      super.addEventListener(event, listener, options);
+      return;
+    }
+
+    const { once = false, signal } = typeof options === "object" ? options : {};
+
+    if (!listener || signal?.aborted) {
+      return;
+    }
+
+    // Like EventTarget, adding the same listener twice has no effect
+    if (this.listeners[event].some((entry) => entry.listener === listener)) {
+      return;
+    }
+
+    this.listeners[event].push({ listener, once });
+
+    signal?.addEventListener(
+      "abort",
+      () => this.removeEventListener(event, listener),
+      { once: true },
+    );
+  }
+
+  removeEventListener<K extends EventType>(
+    event: K,
+    listener: ReconnectingWebSocketListener<
+      this,
+      ReconnectingWebSocketEventMap<In>[K]
+    > | null,
+    options?: boolean | EventListenerOptions,
+  ): void;
+  removeEventListener(
+    event: string,
+    listener: EventListenerOrEventListenerObject | null,
+    options?: boolean | EventListenerOptions,
+  ): void;
+  removeEventListener(
+    event: string,
+    listener: Listener | EventListenerObject | null,
+    options?: boolean | EventListenerOptions,
+  ) {
+    if (!this.isEventType(event)) {
+      super.removeEventListener(event, listener, options);
+      return;
+    }
+
+    this.listeners[event] = this.listeners[event].filter(
+      (entry) => entry.listener !== listener,
+    );
   }
 
-  removeEventListener(event: EventType, listener: Listener) {
-    this.listeners[event] = this.listeners[event].filter((l) => l !== listener);
+  // Resolves with the next matching event, the listener is removed once it settles
+  // so waits that time out or are aborted don't leak
+  waitFor<K extends EventType>(
+    event: K,
+    {
+      timeout = 0,
+      signal,
+      filter,
+    }: WaitForOptions<ReconnectingWebSocketEventMap<In>[K]> = {},
+  ): Promise<ReconnectingWebSocketEventMap<In>[K]> {
+    type Payload = ReconnectingWebSocketEventMap<In>[K];
+
+    return new Promise<Payload>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      const settle = (action: () => void) => {
+        this.removeEventListener(event, listener);
+        signal?.removeEventListener("abort", onAbort);
+        clearTimeout(timer);
+        action();
+      };
+
+      const listener = (payload: Payload) => {
+        try {
+          if (filter && !filter(payload)) return;
+        } catch (error) {
+          settle(() => reject(error));
+          return;
+        }
+
+        settle(() => resolve(payload));
+      };
+
+      const onAbort = () => settle(() => reject(signal!.reason));
+
+      this.addEventListener(event, listener);
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      if (timeout > 0) {
+        timer = setTimeout(() => {
+          settle(() =>
+            reject(
+              new Error(`Timed out waiting for ${event} after ${timeout}ms`),
+            ),
+          );
+        }, timeout);
+      }
+    });
   }
 
-  send(...args: Parameters<WebSocket["send"]>) {
-    if (this.ws?.readyState === WebSocket.OPEN) {
-      this.ws.send(...args);
+  // Resolves once open, right away if already open. Rejects when close() is
+  // called or reconnecting gives up before that
+  async ready(options: WaitOptions = {}) {
+    const state = await this.untilState(["open", "closed", "failed"], options);
+
+    if (state === "closed") {
+      throw new Error("WebSocket closed");
+    }
+
+    if (state === "failed") {
+      throw new Error("WebSocket connection failed");
+    }
+  }
+
+  // Resolves once close() is called or reconnecting gives up
+  async closed(options: WaitOptions = {}) {
+    await this.untilState(["closed", "failed"], options);
+  }
+
+  private async untilState(states: ConnectionState[], options: WaitOptions) {
+    if (states.includes(this.state)) {
+      return this.state;
+    }
+
+    const { state } = await this.waitFor("statechange", {
+      ...options,
+      filter: (change) => states.includes(change.state),
+    });
+
+    return state;
+  }
+
+  // Yields decoded messages, ending when close() is called or reconnecting gives up
+  messages({
+    bufferSize = 1000,
+    overflow = "drop-oldest",
+    endOnClose = false,
+  }: MessagesOptions = {}): AsyncIterableIterator<In> {
+    const buffer: MessageBuffer<In> = new MessageBuffer(
+      { size: bufferSize, overflow },
+      () => this.messageBuffers.delete(buffer),
+    );
+
+    if (this.state === "closed" || this.state === "failed") {
+      buffer.end();
     } else {
-      this.messageQueue.push(args);
+      this.messageBuffers.set(buffer, endOnClose);
+    }
+
+    return buffer;
+  }
+
+  private endMessageBuffers(previous: ConnectionState, state: ConnectionState) {
+    const stopped = state === "closed" || state === "failed";
+    // The connection dropped, or connect() replaced it
+    const disconnected =
+      state === "reconnect-wait" ||
+      (state === "connecting" &&
+        (previous === "open" || previous === "authenticating"));
+
+    for (const [buffer, endOnClose] of this.messageBuffers) {
+      if (stopped || (endOnClose && disconnected)) {
+        buffer.end();
+      }
+    }
+  }
+
+  // Reads from a messages() iterator, replaced by a new stream once it ended
+  get readable(): ReadableStream<In> {
+    if (this.readableStream && !this.readableMessages?.done) {
+      return this.readableStream;
+    }
+
+    const messages = this.messages() as MessageBuffer<In>;
+
+    // The iterator does the buffering, the stream only pulls when read
+    this.readableMessages = messages;
+    this.readableStream = new ReadableStream<In>(
+      {
+        pull: async (controller) => {
+          const { value, done } = await messages.next();
+
+          if (done) {
+            controller.close();
+          } else {
+            controller.enqueue(value);
+          }
+        },
+        cancel: () => {
+          messages.return();
+        },
+      },
+      { highWaterMark: 0 },
+    );
+
+    return this.readableStream;
+  }
+
+  // Writes go through sendAsync(), so they are queued while disconnected and
+  // wait while above highWaterMark. Closing the stream leaves the socket open
+  get writable(): WritableStream<Out> {
+    if (this.writableStream) {
+      return this.writableStream;
+    }
+
+    const stream = new WritableStream<Out>({
+      write: async (message) => {
+        try {
+          await this.sendAsync(message);
+        } catch (error) {
+          release();
+          throw error;
+        }
+      },
+      close: () => release(),
+      abort: () => release(),
+    });
+
+    // A closed or errored stream can't be written to again
+    const release = () => {
+      if (this.writableStream === stream) {
+        this.writableStream = undefined;
+      }
+    };
+
+    this.writableStream = stream;
+    return stream;
+  }
+
+  dispatchEvent(event: Event) {
+    if (!this.isEventType(event.type)) {
+      return super.dispatchEvent(event);
+    }
+
+    this.emit(event.type, event as any);
+    return !event.defaultPrevented;
+  }
+
+  // With "at-least-once" delivery, returns a Promise resolved when the server acknowledges the message
+  // Throws the abort reason without sending when the signal is already aborted
+  send(
+    message: Out,
+    { coalesceKey, signal }: SendOptions = {},
+  ): Promise<void> | undefined {
+    signal?.throwIfAborted();
+
+    if (this.options.delivery === "at-least-once") {
+      // The ack promise rejects rather than the call throwing
+      try {
+        return this.sendWithAck(message, signal);
+      } catch (error) {
+        return Promise.reject(error);
+      }
+    }
+
+    const data = this.options.codec.encode(message);
+
+    if (this.canSendNow()) {
+      this.sendNow(data);
+      return undefined;
+    }
+
+    return this.queueMessage(data, { coalesceKey, signal });
+  }
+
+  // Resolves once buffered data is back under lowWaterMark, the message may still
+  // be queued, so producers can pause while the socket is saturated or disconnected
+  async sendAsync(message: Out, options: SendOptions = {}) {
+    let sent: Promise<void> | undefined;
+
+    if (this.options.delivery === "at-least-once") {
+      options.signal?.throwIfAborted();
+      // The ack is not waited for, send() returns it to callers who want it
+      this.sendWithAck(message, options.signal).catch(() => {});
+    } else {
+      sent = this.send(message, options);
+    }
+
+    await Promise.all([sent, this.waitForDrain(options.signal)]);
+  }
+
+  private waitForDrain(signal?: AbortSignal) {
+    if (!this.draining) {
+      return Promise.resolve();
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        this.drainWaiters = this.drainWaiters.filter(
+          (entry) => entry !== waiter,
+        );
+        reject(signal!.reason);
+      };
+
+      const waiter = {
+        resolve: () => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve();
+        },
+        reject: (error: Error) => {
+          signal?.removeEventListener("abort", onAbort);
+          reject(error);
+        },
+      };
+
+      this.drainWaiters.push(waiter);
+      signal?.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+
+  // Buffered data includes the queue, which is sent once reconnected
+  private checkBackpressure() {
+    const buffered = this.bufferedAmount + this.messageQueue.bytes;
+
+    if (!this.draining) {
+      if (buffered > this.options.highWaterMark) {
+        this.draining = true;
+        this.startDrainCheck();
+      }
+
+      return;
+    }
+
+    if (buffered <= this.options.lowWaterMark) {
+      this.draining = false;
+      this.stopDrainCheck();
+
+      const waiters = this.drainWaiters;
+      this.drainWaiters = [];
+      for (const waiter of waiters) waiter.resolve();
+
+      this.emit("drain", new Event("drain"));
+    }
+  }
+
+  startDrainCheck() {
+    this.stopDrainCheck();
+
+    this.drainCheckInterval = setInterval(() => {
+      this.checkBackpressure();
+    }, BUFFER_CHECK_INTERVAL);
+  }
+
+  stopDrainCheck() {
+    if (this.drainCheckInterval) {
+      clearInterval(this.drainCheckInterval);
+      this.drainCheckInterval = undefined;
+    }
+  }
+
+  // Nothing will drain once closed or given up
+  private rejectDrainWaiters(error: Error) {
+    this.draining = false;
+    this.stopDrainCheck();
+
+    const waiters = this.drainWaiters;
+    this.drainWaiters = [];
+    for (const waiter of waiters) waiter.reject(error);
+  }
+
+  // Messages wait behind a persisted queue that is still loading
+  private get restoringQueue() {
+    return this.options.queueStorage !== undefined && !this.queueRestored;
+  }
+
+  // Rate limited messages, or messages behind a partly flushed queue, go through the queue
+  private canSendNow() {
+    return (
+      this.readyState === WebSocket.OPEN &&
+      !this.restoringQueue &&
+      this.controlMessages.length === 0 &&
+      this.messageQueue.length === 0 &&
+      (this.rateLimiter?.tryTake() ?? true)
+    );
+  }
+
+  // Unacked messages stay in the outbox instead of the queue and are resent on every open.
+  // Throws when the message can't be tagged or encoded
+  private sendWithAck(message: Out, signal?: AbortSignal) {
+    const id = this.nextMessageId();
+    const data = this.options.codec.encode(
+      this.options.injectMessageId(message, id),
+    );
+
+    const ack = this.outbox.add(id, data, signal);
+
+    if (this.readyState === WebSocket.OPEN) {
+      this.sendControl(data);
     }
+
+    return ack;
+  }
+
+  private resendUnacked() {
+    for (const data of this.outbox.unacked()) {
+      if (this.readyState !== WebSocket.OPEN) {
+        return;
+      }
+
+      this.sendControl(data);
+    }
+  }
+
+  private nextMessageId() {
+    this.lastMessageId += 1;
+    return this.lastMessageId;
+  }
+
+  // Sends a message tagged with a correlation id and resolves with the matching response
+  request(
+    message: Out,
+    { timeout = this.options.requestTimeout, signal }: RequestOptions = {},
+  ): Promise<In> {
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+
+    // Failing to encode or queue rejects rather than throws
+    try {
+      const id = this.nextMessageId();
+      const data = this.options.codec.encode(
+        this.options.injectRequestId(message, id),
+      );
+
+      if (this.canSendNow()) {
+        const response = this.requests.track(id, data, true, timeout, signal);
+        this.sendNow(data);
+        return response;
+      }
+
+      // Tracked first so a message refused or dropped by the queue rejects it
+      const response = this.requests.track(id, data, false, timeout, signal);
+
+      try {
+        this.queueMessage(data, { signal, requestId: id })?.catch((error) =>
+          this.requests.reject(id, error),
+        );
+      } catch (error) {
+        this.requests.reject(id, error);
+      }
+
+      return response;
+    } catch (error) {
+      return Promise.reject(error);
+    }
+  }
+
+  private trackSequence(message: In) {
+    const sequence = this.options.extractSequence?.(message);
+
+    if (sequence === undefined) {
+      return;
+    }
+
+    const last = this.lastSequence;
+
+    // Replayed or duplicated messages don't move the sequence back
+    if (last !== undefined && sequence <= last) {
+      return;
+    }
+
+    this.lastSequence = sequence;
+
+    if (last !== undefined && sequence > last + 1) {
+      const payload: GapEvent = { expected: last + 1, received: sequence };
+      this.emit("gap", payload);
+    }
+  }
+
+  // Registers a subscription replayed on every open, and sends it now if connected
+  subscribe(
+    key: string,
+    subscribeMessage: Out,
+    unsubscribeMessage?: Out,
+  ): Subscription {
+    const entry: SubscriptionEntry<Out> = {
+      subscribeMessage,
+      unsubscribeMessage,
+    };
+
+    this.subscriptions.set(key, entry);
+
+    if (this.readyState === WebSocket.OPEN) {
+      this.sendControl(this.options.codec.encode(subscribeMessage));
+    }
+
+    return {
+      key,
+      unsubscribe: () => {
+        // A newer subscription with the same key is left untouched
+        if (this.subscriptions.get(key) !== entry) {
+          return;
+        }
+
+        this.subscriptions.delete(key);
+
+        if (
+          entry.unsubscribeMessage !== undefined &&
+          this.readyState === WebSocket.OPEN
+        ) {
+          this.sendControl(this.options.codec.encode(entry.unsubscribeMessage));
+        }
+      },
+    };
+  }
+
+  private replaySubscriptions() {
+    const messages = Array.from(
+      this.subscriptions.values(),
+      (entry) => entry.subscribeMessage,
+    );
+
+    const { batchSubscriptions, maxSubscriptionsPerMessage } = this.options;
+    const chunkSize = batchSubscriptions
+      ? Math.max(maxSubscriptionsPerMessage, 1)
+      : 1;
+
+    for (let i = 0; i < messages.length; i += chunkSize) {
+      if (this.readyState !== WebSocket.OPEN) {
+        return;
+      }
+
+      const chunk = messages.slice(i, i + chunkSize);
+      const message = batchSubscriptions ? batchSubscriptions(chunk) : chunk[0];
+      this.sendControl(this.options.codec.encode(message));
+    }
+  }
+
+  // Requests sent over a dropped connection are rejected or queued again
+  private handleInFlightRequests() {
+    const resend = this.requests.disconnect(this.options.inFlightRequests);
+
+    for (const { id, data } of resend) {
+      this.enqueue(data, { requestId: id });
+    }
+  }
+
+  // Queues a message until the next open, applying the queue overflow policy:
+  // "throw" throws and "reject" returns a rejected Promise when the queue is full
+  private queueMessage(data: SendData, options?: QueuePushOptions) {
+    if (this.enqueue(data, options)) {
+      // Queued while open because of the rate limit
+      if (this.readyState === WebSocket.OPEN) {
+        this.scheduleFlush(this.rateLimiter?.timeUntilToken() ?? 0);
+      }
+
+      return undefined;
+    }
+
+    const error = new Error("Message queue is full");
+
+    if (this.options.queueOverflow === "reject") {
+      return Promise.reject(error);
+    }
+
+    throw error;
+  }
+
+  // Returns false when the policy refused the message without dropping it
+  private enqueue(data: SendData, options?: QueuePushOptions) {
+    const { queued, dropped } = this.messageQueue.push(data, options);
+    this.persistQueue();
+    this.checkBackpressure();
+
+    if (dropped.length > 0) {
+      this.emitDrop("overflow", dropped);
+    }
+
+    return queued || dropped.length > 0;
+  }
+
+  private emitDrop(reason: DropReason, dropped: QueuedMessage[]) {
+    // Requests whose message will never be sent don't wait for their timeout
+    for (const { requestId } of dropped) {
+      if (requestId !== undefined) {
+        this.requests.reject(
+          requestId,
+          new Error(
+            `Request ${requestId} was dropped from the queue (${reason})`,
+          ),
+        );
+      }
+    }
+
+    const payload: DropEvent = {
+      reason,
+      messages: dropped.map((message) => message.data),
+    };
+
+    this.emit("drop", payload);
   }
 
   private flushMessageQueue() {
+    this.stopFlushTimer();
+
     while (
-      this.messageQueue.length > 0 &&
-      this.ws?.readyState === WebSocket.OPEN
+      this.controlMessages.length > 0 &&
+      this.readyState === WebSocket.OPEN
     ) {
-      const args = this.messageQueue.shift()!;
-      this.ws.send(...args);
+      if (!this.canFlush()) {
+        return;
+      }
+
+      this.sendNow(this.controlMessages.shift()!);
     }
+
+    // Flushed once the persisted messages are loaded ahead of the new ones
+    if (this.restoringQueue) {
+      return;
+    }
+
+    const expired = this.messageQueue.removeExpired();
+    const aborted = this.messageQueue.removeAborted();
+
+    while (this.messageQueue.length > 0 && this.readyState === WebSocket.OPEN) {
+      if (!this.canFlush()) {
+        break;
+      }
+
+      const batch = this.takeBatch();
+      const { batchMessages } = this.options;
+
+      this.sendNow(
+        batch.length === 1
+          ? batch[0].data
+          : batchMessages!(batch.map((message) => message.data)),
+      );
+
+      // Each request is in flight as soon as its own message is written
+      for (const { requestId } of batch) {
+        if (requestId !== undefined) this.requests.markSent(requestId);
+      }
+    }
+
+    this.persistQueue();
+
+    if (expired.length > 0) {
+      this.emitDrop("expired", expired);
+    }
+
+    if (aborted.length > 0) {
+      this.emitDrop("aborted", aborted);
+    }
+  }
+
+  // Takes up to maxBatchSize queued messages, merged into one frame when batchMessages is set
+  private takeBatch() {
+    const { batchMessages, maxBatchSize } = this.options;
+    const size = batchMessages ? maxBatchSize : 1;
+    const messages: QueuedMessage[] = [];
+
+    while (this.messageQueue.length > 0 && messages.length < size) {
+      messages.push(this.messageQueue.shift()!);
+    }
+
+    return messages;
+  }
+
+  // Schedules the next flush instead when the socket buffer or the rate limit is full
+  private canFlush() {
+    // Yield until the socket has sent what it buffered
+    if (this.bufferedAmount > this.options.highWaterMark) {
+      this.scheduleFlush(BUFFER_CHECK_INTERVAL);
+      return false;
+    }
+
+    if (this.rateLimiter && !this.rateLimiter.tryTake()) {
+      this.scheduleFlush(this.rateLimiter.timeUntilToken());
+      return false;
+    }
+
+    return true;
+  }
+
+  // Keeps an already scheduled flush
+  private scheduleFlush(delay: number) {
+    if (this.flushTimeout) {
+      return;
+    }
+
+    this.flushTimeout = setTimeout(() => {
+      this.flushTimeout = undefined;
+      this.flushMessageQueue();
+    }, delay);
+  }
+
+  stopFlushTimer() {
+    if (this.flushTimeout) {
+      clearTimeout(this.flushTimeout);
+      this.flushTimeout = undefined;
+    }
+  }
+
+  // Loads the messages persisted by a previous session, flushed on the next open
+  private restoreQueue() {
+    const { queueStorage } = this.options;
+
+    if (!queueStorage) {
+      return;
+    }
+
+    const onLoad = (stored: StoredMessage[]) => {
+      this.messageQueue.restore(stored.map(deserializeMessage));
+      this.queueRestored = true;
+      this.persistQueue();
+
+      // The socket may have opened while loading
+      if (this.readyState === WebSocket.OPEN) {
+        this.flushMessageQueue();
+      }
+    };
+
+    const onError = (error: unknown) => {
+      // Start from an empty stored queue rather than never saving again
+      this.queueRestored = true;
+      this.handleStorageError(error);
+
+      if (this.readyState === WebSocket.OPEN) {
+        this.flushMessageQueue();
+      }
+    };
+
+    this.deferStorageErrors = true;
+
+    try {
+      const loaded = queueStorage.load();
+
+      if (Array.isArray(loaded)) {
+        onLoad(loaded);
+      } else {
+        loaded.then(onLoad, onError);
+      }
+    } catch (error) {
+      onError(error);
+    } finally {
+      this.deferStorageErrors = false;
+    }
+  }
+
+  private persistQueue() {
+    const { queueStorage } = this.options;
+
+    if (!queueStorage || !this.queueRestored) {
+      return;
+    }
+
+    const messages = this.messageQueue
+      .toArray()
+      .flatMap((message) => serializeMessage(message) ?? []);
+
+    try {
+      const saved = queueStorage.save(messages);
+
+      if (saved) {
+        this.pendingSave = saved.catch((error) =>
+          this.handleStorageError(error),
+        );
+      }
+    } catch (error) {
+      this.handleStorageError(error);
+    }
+  }
+
+  private handleStorageError(error: unknown) {
+    this.lastError = error;
+    const event = Object.assign(new Event("error"), { error });
+
+    // Listeners added right after the constructor still receive it
+    if (this.deferStorageErrors) {
+      queueMicrotask(() => this.emit("error", event));
+    } else {
+      this.emit("error", event);
+    }
+  }
+
+  // Skips the queue but not the rate limit, callers must check that it is open
+  private sendControl(data: SendData) {
+    if (
+      this.controlMessages.length === 0 &&
+      (this.rateLimiter?.tryTake() ?? true)
+    ) {
+      this.sendNow(data);
+      return;
+    }
+
+    this.controlMessages.push(data);
+    this.scheduleFlush(this.rateLimiter?.timeUntilToken() ?? 0);
+  }
+
+  // Send over the current socket, callers must check that it is open
+  private sendNow(...args: Parameters<WebSocket["send"]>) {
+    this.ws!.send(...args);
+    this.connectionStats.recordSent(args[0]);
+    this.checkBackpressure();
   }
 
   close(...args: Parameters<WebSocket["close"]>) {
     this.forcedClose = true;
+    this.connectId += 1;
     this.clearTimers();
+    this.stopDowntimeTimer();
+    this.stopStatsTimer();
+
+    // Clear the message queue on forced close, unless it is persisted
+    if (!this.options.queueStorage) {
+      this.messageQueue.clear();
+    }
+
+    this.requests.rejectAll(new Error("WebSocket closed"));
+    this.outbox.rejectAll(new Error("WebSocket closed"));
+    this.subscriptions.clear();
+    this.controlMessages = [];
+    this.lastSequence = undefined;
+
+    this.rejectDrainWaiters(new Error("WebSocket closed"));
 
-    // Clear the message queue on forced close
-    this.messageQueue = [];
+    let close: CloseInfo | undefined;
 
     if (this.ws) {
+      // Only a live connection goes through closing and reports the close,
+      // a socket already closed while waiting to reconnect or after giving up
+      // is just released
+      if (this.stateMachine.canTransition("closing")) {
+        const [code = 1000, reason = ""] = args;
+        close = { code, reason };
+        this.setState("closing", "Closed by the client");
+      }
+
       // Remove event listeners before closing to prevent memory leaks
       if (this.openFn) this.ws.removeEventListener("open", this.openFn);
       if (this.msgFn) this.ws.removeEventListener("message", this.msgFn);
@@ -394,6 +2266,34 @@ export class ReconnectingWebSocket {
 
       this.ws.close(...args);
       this.ws = undefined;
+      this.connectionStats.recordClose();
+    }
+
+    this.setState("closed", "Closed by the client");
+
+    if (close) {
+      this.lastClose = close;
+      const payload: CloseEventPayload = {
+        ...close,
+        decision: { action: "do-not-retry" },
+      };
+      this.emit("close", payload);
     }
   }
+
+  // `using ws = new ReconnectingWebSocket(...)` closes it at the end of the scope
+  [Symbol.dispose]() {
+    this.close();
+
+    if (this.signalHandler) {
+      this.options.signal?.removeEventListener("abort", this.signalHandler);
+      this.signalHandler = undefined;
+    }
+  }
+
+  // `await using` also waits for the persisted queue to be saved
+  async [Symbol.asyncDispose]() {
+    this[Symbol.dispose]();
+    await this.pendingSave;
+  }
 }
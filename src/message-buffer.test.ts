@@ -0,0 +1,76 @@
+import { describe, it, expect } from "bun:test";
+
+import { MessageBuffer, type MessageBufferOptions } from "./message-buffer";
+
+const createBuffer = (options: Partial<MessageBufferOptions> = {}) =>
+  new MessageBuffer<string>({
+    size: Infinity,
+    overflow: "drop-oldest",
+    ...options,
+  });
+
+describe("MessageBuffer", () => {
+  it("should yield values pushed before and after pulling", async () => {
+    const buffer = createBuffer();
+    buffer.push("a");
+
+    const pending = [buffer.next(), buffer.next()];
+    buffer.push("b");
+
+    expect(await Promise.all(pending)).toEqual([
+      { value: "a", done: false },
+      { value: "b", done: false },
+    ]);
+  });
+
+  it("should drop the oldest value when full", async () => {
+    const buffer = createBuffer({ size: 2 });
+    buffer.push("a");
+    buffer.push("b");
+    buffer.push("c");
+    buffer.end();
+
+    expect(await Array.fromAsync(buffer)).toEqual(["b", "c"]);
+  });
+
+  it("should drop the newest value when full with drop-newest", async () => {
+    const buffer = createBuffer({ size: 2, overflow: "drop-newest" });
+    buffer.push("a");
+    buffer.push("b");
+    buffer.push("c");
+    buffer.end();
+
+    expect(await Array.fromAsync(buffer)).toEqual(["a", "b"]);
+  });
+
+  it("should finish pending pulls and ignore pushes once ended", async () => {
+    let ended = 0;
+    const buffer = new MessageBuffer<string>(
+      { size: Infinity, overflow: "drop-oldest" },
+      () => (ended += 1),
+    );
+
+    const pending = buffer.next();
+    buffer.end();
+    buffer.end();
+    buffer.push("a");
+
+    expect(await pending).toEqual({ value: undefined, done: true });
+    expect(buffer.length).toBe(0);
+    expect(ended).toBe(1);
+  });
+
+  it("should discard buffered values when the loop exits early", async () => {
+    const buffer = createBuffer();
+    buffer.push("a");
+    buffer.push("b");
+
+    for await (const value of buffer) {
+      expect(value).toBe("a");
+      break;
+    }
+
+    expect(buffer.done).toBe(true);
+    expect(await buffer.next()).toEqual({ value: undefined, done: true });
+  });
+});
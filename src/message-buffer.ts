@@ -0,0 +1,83 @@
+// Which message to discard when a consumer falls behind and the buffer is full
+export type BufferOverflowPolicy = "drop-oldest" | "drop-newest";
+
+export interface MessageBufferOptions {
+  size: number;
+  overflow: BufferOverflowPolicy;
+}
+
+// Holds pushed values until they are pulled, backing messages() and readable
+export class MessageBuffer<T> implements AsyncIterableIterator<T> {
+  options: MessageBufferOptions;
+  done = false;
+
+  private values: T[] = [];
+  private pulls: ((result: IteratorResult<T>) => void)[] = [];
+  private onEnd?: () => void;
+
+  constructor(options: MessageBufferOptions, onEnd?: () => void) {
+    this.options = options;
+    this.onEnd = onEnd;
+  }
+
+  get length() {
+    return this.values.length;
+  }
+
+  push(value: T) {
+    if (this.done) {
+      return;
+    }
+
+    const pull = this.pulls.shift();
+
+    if (pull) {
+      pull({ value, done: false });
+      return;
+    }
+
+    if (this.values.length >= this.options.size) {
+      if (this.options.overflow === "drop-newest") return;
+      this.values.shift();
+    }
+
+    this.values.push(value);
+  }
+
+  // Values already buffered can still be pulled
+  end() {
+    if (this.done) {
+      return;
+    }
+
+    this.done = true;
+    this.onEnd?.();
+
+    for (const pull of this.pulls.splice(0)) {
+      pull({ value: undefined, done: true });
+    }
+  }
+
+  next(): Promise<IteratorResult<T>> {
+    if (this.values.length > 0) {
+      return Promise.resolve({ value: this.values.shift()!, done: false });
+    }
+
+    if (this.done) {
+      return Promise.resolve({ value: undefined, done: true });
+    }
+
+    return new Promise((resolve) => this.pulls.push(resolve));
+  }
+
+  // Called when a for await loop exits early, discards what is buffered
+  return(): Promise<IteratorResult<T>> {
+    this.values = [];
+    this.end();
+    return Promise.resolve({ value: undefined, done: true });
+  }
+
+  [Symbol.asyncIterator]() {
+    return this;
+  }
+}
@@ -0,0 +1,132 @@
+import { describe, it, expect } from "bun:test";
+
+import { MessageQueue, type QueueOptions } from "./message-queue";
+
+const createQueue = (options: Partial<QueueOptions>) =>
+  new MessageQueue({
+    maxSize: Infinity,
+    maxBytes: Infinity,
+    overflow: "drop-oldest",
+    ttl: 0,
+    coalescePosition: "in-place",
+    ...options,
+  });
+
+const drain = (queue: MessageQueue) => {
+  const data = [];
+  while (queue.length > 0) data.push(queue.shift()!.data);
+  return data;
+};
+
+describe("MessageQueue", () => {
+  it("should drop the oldest messages to make room", () => {
+    const queue = createQueue({ maxSize: 2 });
+
+    queue.push("a");
+    queue.push("b");
+    const { queued, dropped } = queue.push("c");
+
+    expect(queued).toBe(true);
+    expect(dropped.map((message) => message.data)).toEqual(["a"]);
+    expect(drain(queue)).toEqual(["b", "c"]);
+  });
+
+  it("should drop the new message with drop-newest", () => {
+    const queue = createQueue({ maxSize: 1, overflow: "drop-newest" });
+
+    queue.push("a");
+    const { queued, dropped } = queue.push("b");
+
+    expect(queued).toBe(false);
+    expect(dropped.map((message) => message.data)).toEqual(["b"]);
+    expect(drain(queue)).toEqual(["a"]);
+  });
+
+  it("should refuse messages without dropping with throw and reject", () => {
+    for (const overflow of ["throw", "reject"] as const) {
+      const queue = createQueue({ maxSize: 1, overflow });
+
+      queue.push("a");
+      expect(queue.push("b")).toEqual({ queued: false, dropped: [] });
+    }
+  });
+
+  it("should bound the total size in bytes", () => {
+    const queue = createQueue({ maxBytes: 5 });
+
+    queue.push("abc");
+    queue.push("de");
+    expect(queue.bytes).toBe(5);
+
+    queue.push("f");
+    expect(drain(queue)).toEqual(["de", "f"]);
+    expect(queue.bytes).toBe(0);
+  });
+
+  it("should drop a message larger than the whole queue", () => {
+    const queue = createQueue({ maxBytes: 2 });
+
+    queue.push("a");
+    const { queued, dropped } = queue.push("abc");
+
+    expect(queued).toBe(false);
+    expect(dropped.map((message) => message.data)).toEqual(["abc"]);
+    expect(drain(queue)).toEqual(["a"]);
+  });
+
+  it("should remove expired messages", () => {
+    const queue = createQueue({ ttl: 100 });
+
+    queue.push("a", {}, 0);
+    queue.push("b", {}, 50);
+
+    expect(queue.removeExpired(100).map((message) => message.data)).toEqual([
+      "a",
+    ]);
+    expect(queue.bytes).toBe(1);
+    expect(drain(queue)).toEqual(["b"]);
+  });
+
+  it("should replace a message with the same coalesce key in place", () => {
+    const queue = createQueue({});
+
+    queue.push("cursor:1", { coalesceKey: "cursor" });
+    queue.push("chat");
+    queue.push("cursor:2", { coalesceKey: "cursor" });
+
+    expect(drain(queue)).toEqual(["cursor:2", "chat"]);
+  });
+
+  it("should move a coalesced message to the end", () => {
+    const queue = createQueue({ coalescePosition: "move-to-end" });
+
+    queue.push("cursor:1", { coalesceKey: "cursor" });
+    queue.push("chat");
+    queue.push("cursor:2", { coalesceKey: "cursor" });
+
+    expect(drain(queue)).toEqual(["chat", "cursor:2"]);
+  });
+
+  it("should keep the replaced message when the new one is refused", () => {
+    const queue = createQueue({ maxBytes: 12, overflow: "throw" });
+
+    queue.push("a:1", { coalesceKey: "a" });
+    queue.push("b");
+    expect(queue.push("a:too-large!", { coalesceKey: "a" }).queued).toBe(false);
+
+    expect(drain(queue)).toEqual(["a:1", "b"]);
+  });
+
+  it("should remove aborted messages", () => {
+    const queue = createQueue({});
+    const controller = new AbortController();
+
+    queue.push("a", { signal: controller.signal });
+    queue.push("b");
+    controller.abort();
+
+    expect(queue.removeAborted().map((message) => message.data)).toEqual(["a"]);
+    expect(queue.bytes).toBe(1);
+    expect(drain(queue)).toEqual(["b"]);
+  });
+});
@@ -0,0 +1,198 @@
+import type { SendData } from "./codecs.js";
+import type { RequestId } from "./requests.js";
+import { byteLength } from "./stats.js";
+
+// What to do with a message sent while the queue is full
+export type QueueOverflowPolicy =
+  | "drop-oldest"
+  | "drop-newest"
+  | "throw"
+  | "reject";
+
+export type DropReason = "overflow" | "expired" | "aborted";
+
+// Where a message lands when it replaces a queued one with the same coalesce key
+export type CoalescePosition = "in-place" | "move-to-end";
+
+export interface QueuedMessage {
+  data: SendData;
+  size: number;
+  coalesceKey?: string;
+  // Discarded at flush time once this timestamp is passed
+  expiresAt?: number;
+  // Discarded at flush time once aborted
+  signal?: AbortSignal;
+  // Set for request() messages, so the request learns when its message is dropped
+  requestId?: RequestId;
+}
+
+export type QueuePushOptions = Pick<
+  QueuedMessage,
+  "coalesceKey" | "signal" | "requestId"
+>;
+
+export interface QueueOptions {
+  maxSize: number;
+  maxBytes: number;
+  overflow: QueueOverflowPolicy;
+  // Milliseconds a message may wait in the queue, 0 keeps it forever
+  ttl: number;
+  coalescePosition: CoalescePosition;
+}
+
+export interface QueuePushResult {
+  // False when the message was not queued
+  queued: boolean;
+  dropped: QueuedMessage[];
+}
+
+export class MessageQueue {
+  options: QueueOptions;
+  bytes = 0;
+
+  private messages: QueuedMessage[] = [];
+
+  constructor(options: QueueOptions) {
+    this.options = options;
+  }
+
+  get length() {
+    return this.messages.length;
+  }
+
+  // A message with a coalesce key replaces the queued message with the same key
+  push(
+    data: SendData,
+    { coalesceKey, signal, requestId }: QueuePushOptions = {},
+    now = Date.now(),
+  ): QueuePushResult {
+    const { maxSize, maxBytes, overflow, ttl, coalescePosition } = this.options;
+    const message: QueuedMessage = { data, size: byteLength(data) };
+
+    if (coalesceKey !== undefined) {
+      message.coalesceKey = coalesceKey;
+    }
+
+    if (signal) {
+      message.signal = signal;
+    }
+
+    if (requestId !== undefined) {
+      message.requestId = requestId;
+    }
+
+    if (ttl > 0) {
+      message.expiresAt = now + ttl;
+    }
+
+    // The replaced message makes room for the new one
+    const replacedAt =
+      coalesceKey === undefined
+        ? -1
+        : this.messages.findIndex(
+            (queued) => queued.coalesceKey === coalesceKey,
+          );
+    const replaced = replacedAt === -1 ? undefined : this.removeAt(replacedAt);
+    const index = coalescePosition === "in-place" ? replacedAt : -1;
+
+    const fits = () =>
+      this.messages.length < maxSize && this.bytes + message.size <= maxBytes;
+
+    // A message larger than the whole queue can never fit
+    const tooLarge = maxSize < 1 || message.size > maxBytes;
+
+    if (fits()) {
+      this.insert(message, index);
+      return { queued: true, dropped: [] };
+    }
+
+    if (overflow !== "drop-oldest" || tooLarge) {
+      // Put back the message that was about to be replaced
+      if (replaced) this.insert(replaced, replacedAt);
+
+      return {
+        queued: false,
+        dropped: overflow === "throw" || overflow === "reject" ? [] : [message],
+      };
+    }
+
+    const dropped: QueuedMessage[] = [];
+
+    while (!fits()) {
+      dropped.push(this.shift()!);
+    }
+
+    this.insert(
+      message,
+      index === -1 ? -1 : Math.max(index - dropped.length, 0),
+    );
+    return { queued: true, dropped };
+  }
+
+  shift() {
+    const message = this.messages.shift();
+
+    if (message) {
+      this.bytes -= message.size;
+    }
+
+    return message;
+  }
+
+  // Removes and returns the messages whose TTL has passed
+  removeExpired(now = Date.now()) {
+    return this.removeWhere(
+      (message) => message.expiresAt !== undefined && message.expiresAt <= now,
+    );
+  }
+
+  // Removes and returns the messages whose signal was aborted
+  removeAborted() {
+    return this.removeWhere((message) => message.signal?.aborted === true);
+  }
+
+  clear() {
+    this.messages = [];
+    this.bytes = 0;
+  }
+
+  toArray() {
+    return [...this.messages];
+  }
+
+  // Puts back messages from a previous session, ahead of the ones queued since
+  restore(messages: QueuedMessage[]) {
+    this.messages = [...messages, ...this.messages];
+    this.bytes += messages.reduce((sum, message) => sum + message.size, 0);
+  }
+
+  // Appends the message when index is -1
+  private insert(message: QueuedMessage, index: number) {
+    if (index === -1) {
+      this.messages.push(message);
+    } else {
+      this.messages.splice(index, 0, message);
+    }
+
+    this.bytes += message.size;
+  }
+
+  private removeWhere(predicate: (message: QueuedMessage) => boolean) {
+    const removed = this.messages.filter(predicate);
+
+    if (removed.length > 0) {
+      this.messages = this.messages.filter(
+        (message) => !removed.includes(message),
+      );
+      this.bytes -= removed.reduce((sum, message) => sum + message.size, 0);
+    }
+
+    return removed;
+  }
+
+  private removeAt(index: number) {
+    const [message] = this.messages.splice(index, 1);
+    this.bytes -= message.size;
+    return message;
+  }
+}
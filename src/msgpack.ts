@@ -0,0 +1,366 @@
+// Minimal MessagePack encoder/decoder covering nil, booleans, numbers,
+// strings, binary, arrays and maps (extension types are not supported)
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+class Writer {
+  private buffer = new Uint8Array(64);
+  private view = new DataView(this.buffer.buffer);
+  private offset = 0;
+
+  private ensure(size: number) {
+    if (this.offset + size <= this.buffer.length) return;
+
+    let length = this.buffer.length * 2;
+    while (length < this.offset + size) length *= 2;
+
+    const buffer = new Uint8Array(length);
+    buffer.set(this.buffer);
+    this.buffer = buffer;
+    this.view = new DataView(buffer.buffer);
+  }
+
+  u8(value: number) {
+    this.ensure(1);
+    this.view.setUint8(this.offset, value);
+    this.offset += 1;
+  }
+
+  u16(value: number) {
+    this.ensure(2);
+    this.view.setUint16(this.offset, value);
+    this.offset += 2;
+  }
+
+  u32(value: number) {
+    this.ensure(4);
+    this.view.setUint32(this.offset, value);
+    this.offset += 4;
+  }
+
+  i8(value: number) {
+    this.ensure(1);
+    this.view.setInt8(this.offset, value);
+    this.offset += 1;
+  }
+
+  i16(value: number) {
+    this.ensure(2);
+    this.view.setInt16(this.offset, value);
+    this.offset += 2;
+  }
+
+  i32(value: number) {
+    this.ensure(4);
+    this.view.setInt32(this.offset, value);
+    this.offset += 4;
+  }
+
+  u64(value: number) {
+    this.ensure(8);
+    this.view.setBigUint64(this.offset, BigInt(value));
+    this.offset += 8;
+  }
+
+  i64(value: number) {
+    this.ensure(8);
+    this.view.setBigInt64(this.offset, BigInt(value));
+    this.offset += 8;
+  }
+
+  f64(value: number) {
+    this.ensure(8);
+    this.view.setFloat64(this.offset, value);
+    this.offset += 8;
+  }
+
+  bytes(value: Uint8Array) {
+    this.ensure(value.length);
+    this.buffer.set(value, this.offset);
+    this.offset += value.length;
+  }
+
+  result() {
+    return this.buffer.slice(0, this.offset);
+  }
+}
+
+const writeLength = (
+  writer: Writer,
+  length: number,
+  [fix, fixMax]: [number, number],
+  [l8, l16, l32]: [number | undefined, number, number],
+) => {
+  if (length <= fixMax) {
+    writer.u8(fix | length);
+  } else if (l8 !== undefined && length <= 0xff) {
+    writer.u8(l8);
+    writer.u8(length);
+  } else if (length <= 0xffff) {
+    writer.u8(l16);
+    writer.u16(length);
+  } else {
+    writer.u8(l32);
+    writer.u32(length);
+  }
+};
+
+const writeInteger = (writer: Writer, value: number) => {
+  if (value >= 0) {
+    if (value <= 0x7f) {
+      writer.u8(value);
+    } else if (value <= 0xff) {
+      writer.u8(0xcc);
+      writer.u8(value);
+    } else if (value <= 0xffff) {
+      writer.u8(0xcd);
+      writer.u16(value);
+    } else if (value <= 0xffffffff) {
+      writer.u8(0xce);
+      writer.u32(value);
+    } else {
+      writer.u8(0xcf);
+      writer.u64(value);
+    }
+  } else if (value >= -0x20) {
+    writer.i8(value);
+  } else if (value >= -0x80) {
+    writer.u8(0xd0);
+    writer.i8(value);
+  } else if (value >= -0x8000) {
+    writer.u8(0xd1);
+    writer.i16(value);
+  } else if (value >= -0x80000000) {
+    writer.u8(0xd2);
+    writer.i32(value);
+  } else {
+    writer.u8(0xd3);
+    writer.i64(value);
+  }
+};
+
+const write = (writer: Writer, value: unknown): void => {
+  if (value === null || value === undefined) {
+    writer.u8(0xc0);
+  } else if (value === false) {
+    writer.u8(0xc2);
+  } else if (value === true) {
+    writer.u8(0xc3);
+  } else if (typeof value === "number") {
+    if (Number.isSafeInteger(value)) {
+      writeInteger(writer, value);
+    } else {
+      writer.u8(0xcb);
+      writer.f64(value);
+    }
+  } else if (typeof value === "string") {
+    const bytes = encoder.encode(value);
+    writeLength(writer, bytes.length, [0xa0, 31], [0xd9, 0xda, 0xdb]);
+    writer.bytes(bytes);
+  } else if (value instanceof ArrayBuffer || ArrayBuffer.isView(value)) {
+    const bytes =
+      value instanceof ArrayBuffer
+        ? new Uint8Array(value)
+        : new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+    writeLength(writer, bytes.length, [0, -1], [0xc4, 0xc5, 0xc6]);
+    writer.bytes(bytes);
+  } else if (Array.isArray(value)) {
+    writeLength(writer, value.length, [0x90, 15], [undefined, 0xdc, 0xdd]);
+    for (const item of value) write(writer, item);
+  } else if (typeof value === "object") {
+    // Date, Map, Set and class instances have no MessagePack equivalent
+    const prototype = Object.getPrototypeOf(value);
+    if (prototype !== Object.prototype && prototype !== null) {
+      throw new TypeError(
+        `Cannot encode ${value.constructor?.name ?? "object"} as MessagePack`,
+      );
+    }
+
+    const entries = Object.entries(value).filter(
+      ([, item]) => item !== undefined,
+    );
+    writeLength(writer, entries.length, [0x80, 15], [undefined, 0xde, 0xdf]);
+    for (const [key, item] of entries) {
+      write(writer, key);
+      write(writer, item);
+    }
+  } else {
+    throw new TypeError(`Cannot encode ${typeof value} as MessagePack`);
+  }
+};
+
+export const encodeMessagePack = (value: unknown): Uint8Array => {
+  const writer = new Writer();
+  write(writer, value);
+  return writer.result();
+};
+
+class Reader {
+  private view: DataView;
+  private bytes: Uint8Array;
+  private offset = 0;
+
+  constructor(bytes: Uint8Array) {
+    this.bytes = bytes;
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  private advance(size: number) {
+    if (this.offset + size > this.bytes.length) {
+      throw new RangeError("Unexpected end of MessagePack data");
+    }
+
+    const offset = this.offset;
+    this.offset += size;
+    return offset;
+  }
+
+  get done() {
+    return this.offset === this.bytes.length;
+  }
+
+  u8() {
+    return this.view.getUint8(this.advance(1));
+  }
+
+  u16() {
+    return this.view.getUint16(this.advance(2));
+  }
+
+  u32() {
+    return this.view.getUint32(this.advance(4));
+  }
+
+  u64() {
+    return Number(this.view.getBigUint64(this.advance(8)));
+  }
+
+  i8() {
+    return this.view.getInt8(this.advance(1));
+  }
+
+  i16() {
+    return this.view.getInt16(this.advance(2));
+  }
+
+  i32() {
+    return this.view.getInt32(this.advance(4));
+  }
+
+  i64() {
+    return Number(this.view.getBigInt64(this.advance(8)));
+  }
+
+  f32() {
+    return this.view.getFloat32(this.advance(4));
+  }
+
+  f64() {
+    return this.view.getFloat64(this.advance(8));
+  }
+
+  raw(length: number) {
+    const offset = this.advance(length);
+    return this.bytes.slice(offset, offset + length);
+  }
+
+  str(length: number) {
+    return decoder.decode(this.raw(length));
+  }
+}
+
+const readArray = (reader: Reader, length: number) => {
+  const array: unknown[] = [];
+  for (let i = 0; i < length; i++) array.push(read(reader));
+  return array;
+};
+
+const readMap = (reader: Reader, length: number) => {
+  const map: Record<string, unknown> = {};
+  for (let i = 0; i < length; i++) {
+    const key = read(reader);
+    // Defined rather than assigned so a "__proto__" key stays an own property
+    Object.defineProperty(map, String(key), {
+      value: read(reader),
+      enumerable: true,
+      writable: true,
+      configurable: true,
+    });
+  }
+  return map;
+};
+
+const read = (reader: Reader): unknown => {
+  const type = reader.u8();
+
+  if (type <= 0x7f) return type;
+  if (type >= 0xe0) return type - 0x100;
+  if (type >= 0xa0 && type <= 0xbf) return reader.str(type & 0x1f);
+  if (type >= 0x90 && type <= 0x9f) return readArray(reader, type & 0x0f);
+  if (type >= 0x80 && type <= 0x8f) return readMap(reader, type & 0x0f);
+
+  switch (type) {
+    case 0xc0:
+      return null;
+    case 0xc2:
+      return false;
+    case 0xc3:
+      return true;
+    case 0xc4:
+      return reader.raw(reader.u8());
+    case 0xc5:
+      return reader.raw(reader.u16());
+    case 0xc6:
+      return reader.raw(reader.u32());
+    case 0xca:
+      return reader.f32();
+    case 0xcb:
+      return reader.f64();
+    case 0xcc:
+      return reader.u8();
+    case 0xcd:
+      return reader.u16();
+    case 0xce:
+      return reader.u32();
+    case 0xcf:
+      return reader.u64();
+    case 0xd0:
+      return reader.i8();
+    case 0xd1:
+      return reader.i16();
+    case 0xd2:
+      return reader.i32();
+    case 0xd3:
+      return reader.i64();
+    case 0xd9:
+      return reader.str(reader.u8());
+    case 0xda:
+      return reader.str(reader.u16());
+    case 0xdb:
+      return reader.str(reader.u32());
+    case 0xdc:
+      return readArray(reader, reader.u16());
+    case 0xdd:
+      return readArray(reader, reader.u32());
+    case 0xde:
+      return readMap(reader, reader.u16());
+    case 0xdf:
+      return readMap(reader, reader.u32());
+    default:
+      throw new TypeError(
+        `Unsupported MessagePack type 0x${type.toString(16)}`,
+      );
+  }
+};
+
+export const decodeMessagePack = (bytes: Uint8Array): unknown => {
+  const reader = new Reader(bytes);
+  const value = read(reader);
+
+  if (!reader.done) {
+    throw new RangeError("Unexpected trailing MessagePack data");
+  }
+
+  return value;
+};
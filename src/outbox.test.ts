@@ -0,0 +1,41 @@
+import { describe, it, expect } from "bun:test";
+
+import { Outbox } from "./outbox";
+
+describe("Outbox", () => {
+  it("should keep messages until they are acknowledged", async () => {
+    const outbox = new Outbox();
+    const first = outbox.add(1, "a");
+    outbox.add(2, "b");
+    outbox.add(3, "c");
+
+    expect(outbox.ack(1)).toBe(true);
+    expect(outbox.ack(1)).toBe(false);
+    await first;
+
+    expect(outbox.unacked()).toEqual(["b", "c"]);
+  });
+
+  it("should reject every message on rejectAll", async () => {
+    const outbox = new Outbox();
+    const message = outbox.add(1, "a");
+
+    outbox.rejectAll(new Error("closed"));
+
+    await expect(message).rejects.toThrow("closed");
+    expect(outbox.size).toBe(0);
+  });
+
+  it("should stop resending a message once its signal is aborted", async () => {
+    const outbox = new Outbox();
+    const controller = new AbortController();
+    const message = outbox.add(1, "a", controller.signal);
+    outbox.add(2, "b");
+
+    controller.abort(new Error("Cancelled"));
+
+    await expect(message).rejects.toThrow("Cancelled");
+    expect(outbox.unacked()).toEqual(["b"]);
+    expect(outbox.ack(1)).toBe(false);
+  });
+});
@@ -0,0 +1,73 @@
+import type { SendData } from "./codecs.js";
+import type { RequestId } from "./requests.js";
+
+// "at-least-once" keeps every message until the server acknowledges it
+export type DeliveryMode = "at-most-once" | "at-least-once";
+
+interface OutboxEntry {
+  data: SendData;
+  resolve: () => void;
+  reject: (error: unknown) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+export class Outbox {
+  // Maps keep insertion order, so resends follow the original order
+  private entries = new Map<RequestId, OutboxEntry>();
+
+  get size() {
+    return this.entries.size;
+  }
+
+  // Aborting the signal stops resending the message and rejects with the abort reason
+  add(id: RequestId, data: SendData, signal?: AbortSignal) {
+    return new Promise<void>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      const entry: OutboxEntry = { data, resolve, reject };
+
+      if (signal) {
+        entry.signal = signal;
+        entry.onAbort = () => this.remove(id)?.reject(signal.reason);
+        signal.addEventListener("abort", entry.onAbort, { once: true });
+      }
+
+      this.entries.set(id, entry);
+    });
+  }
+
+  // Returns false when no message is waiting for this ack
+  ack(id: RequestId) {
+    const entry = this.remove(id);
+    entry?.resolve();
+    return entry !== undefined;
+  }
+
+  // Unacknowledged messages in the order they were first sent
+  unacked() {
+    return Array.from(this.entries.values(), (entry) => entry.data);
+  }
+
+  rejectAll(error: Error) {
+    for (const id of [...this.entries.keys()]) {
+      this.remove(id)?.reject(error);
+    }
+  }
+
+  private remove(id: RequestId) {
+    const entry = this.entries.get(id);
+
+    if (entry) {
+      if (entry.onAbort) {
+        entry.signal!.removeEventListener("abort", entry.onAbort);
+      }
+      this.entries.delete(id);
+    }
+
+    return entry;
+  }
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect } from "bun:test";
+
+import {
+  deserializeMessage,
+  KeyValueQueueStorage,
+  serializeMessage,
+} from "./queue-storage";
+
+describe("queue message serialization", () => {
+  it("should round-trip text messages with their metadata", () => {
+    const stored = serializeMessage({
+      data: "hello",
+      size: 5,
+      coalesceKey: "greeting",
+      expiresAt: 1000,
+    });
+
+    expect(stored).toEqual({
+      type: "text",
+      data: "hello",
+      coalesceKey: "greeting",
+      expiresAt: 1000,
+    });
+    expect(deserializeMessage(stored!)).toEqual({
+      data: "hello",
+      size: 5,
+      coalesceKey: "greeting",
+      expiresAt: 1000,
+    });
+  });
+
+  it("should store binary messages as base64 and restore an ArrayBuffer", () => {
+    const bytes = new Uint8Array([0, 1, 254, 255]);
+
+    for (const data of [bytes, bytes.buffer]) {
+      const stored = serializeMessage({ data, size: 4 })!;
+      expect(stored).toEqual({ type: "binary", data: "AAH+/w==" });
+
+      const restored = deserializeMessage(stored);
+      expect(restored.data).toBeInstanceOf(ArrayBuffer);
+      expect(new Uint8Array(restored.data as ArrayBuffer)).toEqual(bytes);
+      expect(restored.size).toBe(4);
+    }
+  });
+
+  it("should skip Blob messages", () => {
+    expect(
+      serializeMessage({ data: new Blob(["x"]), size: 1 }),
+    ).toBeUndefined();
+  });
+});
+
+describe("KeyValueQueueStorage", () => {
+  it("should store the queue as JSON under its key", async () => {
+    const values = new Map<string, string>();
+    const store = {
+      getItem: (key: string) => values.get(key) ?? null,
+      setItem: (key: string, value: string) => {
+        values.set(key, value);
+      },
+    };
+
+    const storage = new KeyValueQueueStorage(store, "queue");
+    expect(await storage.load()).toEqual([]);
+
+    await storage.save([{ type: "text", data: "a" }]);
+    expect(values.get("queue")).toBe('[{"type":"text","data":"a"}]');
+    expect(await storage.load()).toEqual([{ type: "text", data: "a" }]);
+  });
+});
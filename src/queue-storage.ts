@@ -0,0 +1,110 @@
+import type { QueuedMessage } from "./message-queue.js";
+import { byteLength } from "./stats.js";
+
+// JSON-friendly form of a queued message, binary data is base64 encoded
+export interface StoredMessage {
+  type: "text" | "binary";
+  data: string;
+  coalesceKey?: string;
+  expiresAt?: number;
+}
+
+// Keeps the queue of messages sent while disconnected across restarts
+export interface QueueStorage {
+  load(): StoredMessage[] | Promise<StoredMessage[]>;
+  // Called with the whole queue every time it changes
+  save(messages: StoredMessage[]): void | Promise<void>;
+}
+
+// localStorage, or async stores with the same methods such as localForage
+export interface KeyValueStore {
+  getItem(key: string): string | null | Promise<string | null>;
+  setItem(key: string, value: string): void | Promise<void>;
+}
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+};
+
+const fromBase64 = (data: string) =>
+  Uint8Array.from(atob(data), (char) => char.charCodeAt(0)).buffer;
+
+// Blobs can't be read synchronously, so they are not persisted
+export const serializeMessage = ({
+  data,
+  coalesceKey,
+  expiresAt,
+}: QueuedMessage): StoredMessage | undefined => {
+  let stored: StoredMessage;
+
+  if (typeof data === "string") {
+    stored = { type: "text", data };
+  } else if (data instanceof ArrayBuffer) {
+    stored = { type: "binary", data: toBase64(new Uint8Array(data)) };
+  } else if (ArrayBuffer.isView(data)) {
+    stored = {
+      type: "binary",
+      data: toBase64(
+        new Uint8Array(data.buffer, data.byteOffset, data.byteLength),
+      ),
+    };
+  } else {
+    return undefined;
+  }
+
+  if (coalesceKey !== undefined) stored.coalesceKey = coalesceKey;
+  if (expiresAt !== undefined) stored.expiresAt = expiresAt;
+
+  return stored;
+};
+
+export const deserializeMessage = ({
+  type,
+  data,
+  coalesceKey,
+  expiresAt,
+}: StoredMessage): QueuedMessage => {
+  const message: QueuedMessage = {
+    data: type === "binary" ? fromBase64(data) : data,
+    size: 0,
+  };
+
+  message.size = byteLength(message.data);
+  if (coalesceKey !== undefined) message.coalesceKey = coalesceKey;
+  if (expiresAt !== undefined) message.expiresAt = expiresAt;
+
+  return message;
+};
+
+export class MemoryQueueStorage implements QueueStorage {
+  messages: StoredMessage[] = [];
+
+  load() {
+    return this.messages;
+  }
+
+  save(messages: StoredMessage[]) {
+    this.messages = messages;
+  }
+}
+
+export class KeyValueQueueStorage implements QueueStorage {
+  store: KeyValueStore;
+  key: string;
+
+  constructor(store: KeyValueStore, key = "reconnecting-websocket:queue") {
+    this.store = store;
+    this.key = key;
+  }
+
+  async load(): Promise<StoredMessage[]> {
+    const value = await this.store.getItem(this.key);
+    return value ? JSON.parse(value) : [];
+  }
+
+  save(messages: StoredMessage[]) {
+    return this.store.setItem(this.key, JSON.stringify(messages));
+  }
+}
@@ -0,0 +1,34 @@
+import { describe, it, expect } from "bun:test";
+
+import { TokenBucket } from "./rate-limiter";
+
+describe("TokenBucket", () => {
+  it("should allow a burst up to its capacity", () => {
+    const bucket = new TokenBucket(3, 1000, 0);
+
+    expect([0, 0, 0, 0].map((now) => bucket.tryTake(now))).toEqual([
+      true,
+      true,
+      true,
+      false,
+    ]);
+  });
+
+  it("should refill evenly over the interval", () => {
+    const bucket = new TokenBucket(2, 1000, 0);
+    bucket.tryTake(0);
+    bucket.tryTake(0);
+
+    expect(bucket.timeUntilToken(0)).toBe(500);
+    expect(bucket.tryTake(250)).toBe(false);
+    expect(bucket.timeUntilToken(250)).toBe(250);
+    expect(bucket.tryTake(500)).toBe(true);
+  });
+
+  it("should not refill past its capacity", () => {
+    const bucket = new TokenBucket(2, 1000, 0);
+
+    expect(bucket.timeUntilToken(10_000)).toBe(0);
+    expect(bucket.tokens).toBe(2);
+  });
+});
@@ -0,0 +1,49 @@
+// Allows bursts of up to `capacity` messages, refilled evenly over `interval` ms
+export class TokenBucket {
+  capacity: number;
+  interval: number;
+  tokens: number;
+
+  private lastRefillAt: number;
+
+  constructor(capacity: number, interval: number, now = Date.now()) {
+    this.capacity = capacity;
+    this.interval = interval;
+    this.tokens = capacity;
+    this.lastRefillAt = now;
+  }
+
+  tryTake(now = Date.now()) {
+    this.refill(now);
+
+    if (this.tokens < 1) {
+      return false;
+    }
+
+    this.tokens -= 1;
+    return true;
+  }
+
+  // Milliseconds before tryTake() can succeed
+  timeUntilToken(now = Date.now()) {
+    this.refill(now);
+
+    if (this.tokens >= 1) {
+      return 0;
+    }
+
+    return Math.ceil(((1 - this.tokens) * this.interval) / this.capacity);
+  }
+
+  private refill(now: number) {
+    const elapsed = now - this.lastRefillAt;
+
+    if (elapsed > 0) {
+      this.tokens = Math.min(
+        this.capacity,
+        this.tokens + (elapsed * this.capacity) / this.interval,
+      );
+      this.lastRefillAt = now;
+    }
+  }
+}
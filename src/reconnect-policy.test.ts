@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+
+import {
+  ConstantPolicy,
+  DecorrelatedJitterPolicy,
+  EqualJitterPolicy,
+  ExponentialBackoffPolicy,
+  FullJitterPolicy,
+  LinearPolicy,
+} from "./reconnect-policy";
+
+describe("reconnect policies", () => {
+  let originalRandom: typeof Math.random;
+  let randomValue: number;
+
+  beforeEach(() => {
+    originalRandom = Math.random;
+    randomValue = 0.5;
+    Math.random = () => randomValue;
+  });
+
+  afterEach(() => {
+    Math.random = originalRandom;
+  });
+
+  it("should grow exponentially up to maxRetryDelay", () => {
+    const policy = new ExponentialBackoffPolicy({
+      retryDelay: 100,
+      backoffFactor: 2,
+      maxRetryDelay: 500,
+    });
+
+    const delays = [0, 1, 2, 3, 4].map((attempt) =>
+      policy.nextDelay({ attempt, downtime: 0 }),
+    );
+
+    expect(delays).toEqual([100, 200, 400, 500, 500]);
+  });
+
+  it("should pick a full jitter delay between 0 and the exponential delay", () => {
+    const policy = new FullJitterPolicy({ retryDelay: 100 });
+
+    expect(policy.nextDelay({ attempt: 2, downtime: 0 })).toBe(200);
+
+    randomValue = 0;
+    expect(policy.nextDelay({ attempt: 2, downtime: 0 })).toBe(0);
+  });
+
+  it("should keep at least half of the exponential delay with equal jitter", () => {
+    const policy = new EqualJitterPolicy({ retryDelay: 100 });
+
+    randomValue = 0;
+    expect(policy.nextDelay({ attempt: 2, downtime: 0 })).toBe(200);
+
+    randomValue = 0.5;
+    expect(policy.nextDelay({ attempt: 2, downtime: 0 })).toBe(300);
+  });
+
+  it("should base decorrelated jitter on the previous delay", () => {
+    const policy = new DecorrelatedJitterPolicy({
+      retryDelay: 100,
+      maxRetryDelay: 1000,
+    });
+
+    randomValue = 1;
+    expect(policy.nextDelay({ attempt: 0, downtime: 0 })).toBe(300);
+    expect(
+      policy.nextDelay({ attempt: 1, downtime: 0, previousDelay: 300 }),
+    ).toBe(900);
+    expect(
+      policy.nextDelay({ attempt: 2, downtime: 0, previousDelay: 900 }),
+    ).toBe(1000);
+
+    randomValue = 0;
+    expect(
+      policy.nextDelay({ attempt: 3, downtime: 0, previousDelay: 1000 }),
+    ).toBe(100);
+  });
+
+  it("should grow linearly up to maxRetryDelay", () => {
+    const policy = new LinearPolicy({
+      retryDelay: 100,
+      increment: 50,
+      maxRetryDelay: 220,
+    });
+
+    const delays = [0, 1, 2, 3].map((attempt) =>
+      policy.nextDelay({ attempt, downtime: 0 }),
+    );
+
+    expect(delays).toEqual([100, 150, 200, 220]);
+  });
+
+  it("should always return the same delay with a constant policy", () => {
+    const policy = new ConstantPolicy(250);
+
+    expect(policy.nextDelay()).toBe(250);
+  });
+});
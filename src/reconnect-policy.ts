@@ -0,0 +1,114 @@
+export interface ReconnectContext {
+  // Number of reconnect attempts already made since the last successful open.
+  // With several endpoints, only the failures of the endpoint about to be retried
+  attempt: number;
+  // Close code of the last disconnection, undefined if no close event was received
+  closeCode?: number;
+  // Milliseconds elapsed since the connection was lost
+  downtime: number;
+  // Delay returned for the previous attempt, undefined on the first attempt
+  previousDelay?: number;
+}
+
+export interface ReconnectPolicy {
+  // Returns the delay in ms before the next attempt, or `null` to give up
+  nextDelay(context: ReconnectContext): number | null;
+}
+
+interface BackoffOptions {
+  retryDelay?: number;
+  maxRetryDelay?: number;
+  backoffFactor?: number;
+}
+
+const randomBetween = (min: number, max: number) =>
+  min + Math.random() * (max - min);
+
+export class ExponentialBackoffPolicy implements ReconnectPolicy {
+  retryDelay: number;
+  maxRetryDelay: number;
+  backoffFactor: number;
+
+  constructor(options: BackoffOptions = {}) {
+    this.retryDelay = options.retryDelay ?? 1000;
+    this.maxRetryDelay = options.maxRetryDelay ?? 30_000;
+    this.backoffFactor = options.backoffFactor ?? 2;
+  }
+
+  nextDelay({ attempt }: ReconnectContext) {
+    return Math.min(
+      this.retryDelay * Math.pow(this.backoffFactor, attempt),
+      this.maxRetryDelay,
+    );
+  }
+}
+
+// Random delay between 0 and the exponential delay, spreads clients the most
+export class FullJitterPolicy extends ExponentialBackoffPolicy {
+  nextDelay(context: ReconnectContext) {
+    return randomBetween(0, super.nextDelay(context));
+  }
+}
+
+// Half of the exponential delay plus a random half, keeps a minimum wait
+export class EqualJitterPolicy extends ExponentialBackoffPolicy {
+  nextDelay(context: ReconnectContext) {
+    const delay = super.nextDelay(context);
+    return delay / 2 + randomBetween(0, delay / 2);
+  }
+}
+
+// Random delay between `retryDelay` and 3x the previous delay, capped at `maxRetryDelay`
+export class DecorrelatedJitterPolicy implements ReconnectPolicy {
+  retryDelay: number;
+  maxRetryDelay: number;
+
+  constructor(options: Omit<BackoffOptions, "backoffFactor"> = {}) {
+    this.retryDelay = options.retryDelay ?? 1000;
+    this.maxRetryDelay = options.maxRetryDelay ?? 30_000;
+  }
+
+  nextDelay({ previousDelay }: ReconnectContext) {
+    const previous = previousDelay ?? this.retryDelay;
+
+    return Math.min(
+      randomBetween(this.retryDelay, Math.max(previous * 3, this.retryDelay)),
+      this.maxRetryDelay,
+    );
+  }
+}
+
+export class LinearPolicy implements ReconnectPolicy {
+  retryDelay: number;
+  increment: number;
+  maxRetryDelay: number;
+
+  constructor(
+    options: Omit<BackoffOptions, "backoffFactor"> & {
+      increment?: number;
+    } = {},
+  ) {
+    this.retryDelay = options.retryDelay ?? 1000;
+    this.increment = options.increment ?? this.retryDelay;
+    this.maxRetryDelay = options.maxRetryDelay ?? 30_000;
+  }
+
+  nextDelay({ attempt }: ReconnectContext) {
+    return Math.min(
+      this.retryDelay + this.increment * attempt,
+      this.maxRetryDelay,
+    );
+  }
+}
+
+export class ConstantPolicy implements ReconnectPolicy {
+  delay: number;
+
+  constructor(delay = 1000) {
+    this.delay = delay;
+  }
+
+  nextDelay() {
+    return this.delay;
+  }
+}
@@ -0,0 +1,78 @@
+import { describe, it, expect } from "bun:test";
+
+import { PendingRequests } from "./requests";
+
+describe("PendingRequests", () => {
+  it("should resolve a request once with its response", async () => {
+    const requests = new PendingRequests<string>();
+    const response = requests.track(1, "req", true, 0);
+
+    expect(requests.resolve(1, "res")).toBe(true);
+    expect(requests.resolve(1, "again")).toBe(false);
+    expect(await response).toBe("res");
+    expect(requests.size).toBe(0);
+  });
+
+  it("should reject after the timeout", async () => {
+    const requests = new PendingRequests<string>();
+
+    await expect(requests.track(7, "req", true, 5)).rejects.toThrow(
+      "Request 7 timed out after 5ms",
+    );
+    expect(requests.size).toBe(0);
+  });
+
+  it("should reject only sent requests on disconnect", async () => {
+    const requests = new PendingRequests<string>();
+    const sent = requests.track(1, "a", true, 0);
+    requests.track(2, "b", false, 0);
+
+    expect(requests.disconnect("reject")).toEqual([]);
+    await expect(sent).rejects.toThrow("Connection closed before request 1");
+    expect(requests.size).toBe(1);
+  });
+
+  it("should return sent requests to resend on disconnect", () => {
+    const requests = new PendingRequests<string>();
+    requests.track(1, "a", true, 0);
+    requests.track(2, "b", false, 0);
+
+    expect(requests.disconnect("resend")).toEqual([{ id: 1, data: "a" }]);
+    // Not sent again until markSent
+    expect(requests.disconnect("resend")).toEqual([]);
+
+    requests.markSent(1);
+    requests.markSent(2);
+    expect(requests.disconnect("resend")).toEqual([
+      { id: 1, data: "a" },
+      { id: 2, data: "b" },
+    ]);
+    expect(requests.size).toBe(2);
+  });
+
+  it("should reject a pending request once", async () => {
+    const requests = new PendingRequests<string>();
+    const response = requests.track(3, "req", false, 0);
+
+    expect(requests.reject(3, new Error("Dropped"))).toBe(true);
+    expect(requests.reject(3, new Error("Again"))).toBe(false);
+    await expect(response).rejects.toThrow("Dropped");
+    expect(requests.size).toBe(0);
+  });
+
+  it("should reject with the abort reason", async () => {
+    const requests = new PendingRequests<string>();
+    const controller = new AbortController();
+    const response = requests.track(1, "req", true, 0, controller.signal);
+
+    controller.abort(new Error("Cancelled"));
+
+    await expect(response).rejects.toThrow("Cancelled");
+    expect(requests.size).toBe(0);
+    expect(requests.resolve(1, "res")).toBe(false);
+    await expect(
+      requests.track(2, "req", true, 0, controller.signal),
+    ).rejects.toThrow("Cancelled");
+    expect(requests.size).toBe(0);
+  });
+});
@@ -0,0 +1,133 @@
+import type { SendData } from "./codecs.js";
+
+export type RequestId = string | number;
+
+// What happens to requests already sent when the connection drops
+export type InFlightRequestPolicy = "reject" | "resend";
+
+export interface RequestOptions {
+  // Milliseconds before the request is rejected, 0 waits forever
+  timeout?: number;
+  // Rejects with the abort reason, a request still queued is not sent
+  signal?: AbortSignal;
+}
+
+interface PendingRequest<In> {
+  // Encoded message, resent as-is by the "resend" policy
+  data: SendData;
+  // False while the message is waiting in the queue
+  sent: boolean;
+  resolve: (response: In) => void;
+  reject: (error: unknown) => void;
+  timeout?: ReturnType<typeof setTimeout>;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+export class PendingRequests<In> {
+  private requests = new Map<RequestId, PendingRequest<In>>();
+
+  get size() {
+    return this.requests.size;
+  }
+
+  track(
+    id: RequestId,
+    data: SendData,
+    sent: boolean,
+    timeout: number,
+    signal?: AbortSignal,
+  ) {
+    return new Promise<In>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      const request: PendingRequest<In> = { data, sent, resolve, reject };
+
+      if (signal) {
+        request.signal = signal;
+        request.onAbort = () => this.settle(id)?.reject(signal.reason);
+        signal.addEventListener("abort", request.onAbort, { once: true });
+      }
+
+      if (timeout > 0) {
+        request.timeout = setTimeout(() => {
+          this.settle(id)?.reject(
+            new Error(`Request ${id} timed out after ${timeout}ms`),
+          );
+        }, timeout);
+      }
+
+      this.requests.set(id, request);
+    });
+  }
+
+  // Returns false when no request is waiting for this id
+  resolve(id: RequestId, response: In) {
+    const request = this.settle(id);
+    request?.resolve(response);
+    return request !== undefined;
+  }
+
+  // Returns false when no request is waiting for this id
+  reject(id: RequestId, error: unknown) {
+    const request = this.settle(id);
+    request?.reject(error);
+    return request !== undefined;
+  }
+
+  // Called once the queued message of the request has been written to the socket
+  markSent(id: RequestId) {
+    const request = this.requests.get(id);
+
+    if (request) {
+      request.sent = true;
+    }
+  }
+
+  // Applies the policy to requests sent over a connection that just dropped,
+  // returning the messages to queue again
+  disconnect(
+    policy: InFlightRequestPolicy,
+  ): { id: RequestId; data: SendData }[] {
+    const resend: { id: RequestId; data: SendData }[] = [];
+
+    for (const [id, request] of this.requests) {
+      if (!request.sent) continue;
+
+      if (policy === "resend") {
+        request.sent = false;
+        resend.push({ id, data: request.data });
+      } else {
+        this.settle(id);
+        request.reject(
+          new Error(`Connection closed before request ${id} was answered`),
+        );
+      }
+    }
+
+    return resend;
+  }
+
+  rejectAll(error: Error) {
+    for (const id of [...this.requests.keys()]) {
+      this.settle(id)?.reject(error);
+    }
+  }
+
+  private settle(id: RequestId) {
+    const request = this.requests.get(id);
+
+    if (request) {
+      clearTimeout(request.timeout);
+      if (request.onAbort) {
+        request.signal!.removeEventListener("abort", request.onAbort);
+      }
+      this.requests.delete(id);
+    }
+
+    return request;
+  }
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect } from "bun:test";
+
+import { byteLength, ConnectionStats } from "./stats";
+
+describe("ConnectionStats", () => {
+  it("should compute last, average and p95 round-trip times", () => {
+    const stats = new ConnectionStats();
+
+    for (let rtt = 1; rtt <= 20; rtt++) {
+      stats.recordRtt(rtt);
+    }
+
+    expect(stats.snapshot().rtt).toEqual({ last: 20, avg: 10.5, p95: 19 });
+  });
+
+  it("should report empty round-trip times without samples", () => {
+    expect(new ConnectionStats().snapshot().rtt).toEqual({
+      last: undefined,
+      avg: undefined,
+      p95: undefined,
+    });
+  });
+
+  it("should only keep the most recent round-trip samples", () => {
+    const stats = new ConnectionStats();
+
+    for (let i = 0; i < ConnectionStats.RTT_WINDOW; i++) {
+      stats.recordRtt(1000);
+    }
+    for (let i = 0; i < ConnectionStats.RTT_WINDOW; i++) {
+      stats.recordRtt(10);
+    }
+
+    expect(stats.snapshot().rtt.avg).toBe(10);
+  });
+
+  it("should track uptime, downtime and reconnects", () => {
+    const stats = new ConnectionStats();
+
+    stats.recordOpen(false, 1000);
+    expect(stats.snapshot(1500)).toMatchObject({
+      uptime: 500,
+      totalDowntime: 0,
+      reconnects: 0,
+      lastOpenAt: 1000,
+    });
+
+    stats.recordClose(2000);
+    stats.recordClose(2500);
+    expect(stats.snapshot(3000)).toMatchObject({
+      uptime: 0,
+      totalDowntime: 1000,
+      lastCloseAt: 2000,
+    });
+
+    stats.recordOpen(true, 4000);
+    expect(stats.snapshot(5000)).toMatchObject({
+      uptime: 1000,
+      totalDowntime: 2000,
+      reconnects: 1,
+    });
+  });
+
+  it("should measure the byte length of string and binary payloads", () => {
+    expect(byteLength("héllo")).toBe(6);
+    expect(byteLength(new ArrayBuffer(8))).toBe(8);
+    expect(byteLength(new Uint16Array(4))).toBe(8);
+    expect(byteLength(new Blob(["abc"]))).toBe(3);
+  });
+});
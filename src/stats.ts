@@ -0,0 +1,124 @@
+type SendData = Parameters<WebSocket["send"]>[0];
+
+export interface RttStats {
+  last?: number;
+  avg?: number;
+  p95?: number;
+}
+
+export interface ConnectionStatsSnapshot {
+  rtt: RttStats;
+  messagesSent: number;
+  messagesReceived: number;
+  bytesSent: number;
+  bytesReceived: number;
+  reconnects: number;
+  // Milliseconds spent disconnected after the first open, including the current outage
+  totalDowntime: number;
+  lastOpenAt?: number;
+  lastCloseAt?: number;
+  // Milliseconds since the current connection opened, 0 when disconnected
+  uptime: number;
+}
+
+const encoder = new TextEncoder();
+
+export const byteLength = (data: unknown): number => {
+  if (typeof data === "string") return encoder.encode(data).byteLength;
+  if (typeof Blob !== "undefined" && data instanceof Blob) return data.size;
+  if (data instanceof ArrayBuffer) return data.byteLength;
+  if (ArrayBuffer.isView(data)) return data.byteLength;
+  return 0;
+};
+
+export class ConnectionStats {
+  // Number of RTT samples kept to compute the average and p95
+  static RTT_WINDOW = 100;
+
+  messagesSent = 0;
+  messagesReceived = 0;
+  bytesSent = 0;
+  bytesReceived = 0;
+  reconnects = 0;
+
+  lastOpenAt?: number;
+  lastCloseAt?: number;
+
+  private rttSamples: number[] = [];
+  private downtime = 0;
+  private connected = false;
+
+  recordSent(data: SendData) {
+    this.messagesSent += 1;
+    this.bytesSent += byteLength(data);
+  }
+
+  recordReceived(data: unknown) {
+    this.messagesReceived += 1;
+    this.bytesReceived += byteLength(data);
+  }
+
+  recordRtt(rtt: number) {
+    this.rttSamples.push(rtt);
+
+    if (this.rttSamples.length > ConnectionStats.RTT_WINDOW) {
+      this.rttSamples.shift();
+    }
+  }
+
+  recordOpen(isReconnect: boolean, now = Date.now()) {
+    if (isReconnect) {
+      this.reconnects += 1;
+    }
+
+    if (this.lastCloseAt !== undefined && !this.connected) {
+      this.downtime += now - this.lastCloseAt;
+    }
+
+    this.connected = true;
+    this.lastOpenAt = now;
+  }
+
+  recordClose(now = Date.now()) {
+    // Ignore repeated closes of the same outage
+    if (!this.connected) {
+      return;
+    }
+
+    this.connected = false;
+    this.lastCloseAt = now;
+  }
+
+  snapshot(now = Date.now()): ConnectionStatsSnapshot {
+    const samples = this.rttSamples;
+    const sorted = [...samples].sort((a, b) => a - b);
+
+    const currentDowntime =
+      !this.connected && this.lastCloseAt !== undefined
+        ? now - this.lastCloseAt
+        : 0;
+
+    return {
+      rtt: {
+        last: samples.at(-1),
+        avg:
+          samples.length > 0
+            ? samples.reduce((sum, rtt) => sum + rtt, 0) / samples.length
+            : undefined,
+        p95: sorted[Math.ceil(sorted.length * 0.95) - 1],
+      },
+      messagesSent: this.messagesSent,
+      messagesReceived: this.messagesReceived,
+      bytesSent: this.bytesSent,
+      bytesReceived: this.bytesReceived,
+      reconnects: this.reconnects,
+      totalDowntime: this.downtime + currentDowntime,
+      lastOpenAt: this.lastOpenAt,
+      lastCloseAt: this.lastCloseAt,
+      uptime:
+        this.connected && this.lastOpenAt !== undefined
+          ? now - this.lastOpenAt
+          : 0,
+    };
+  }
+}